@@ -3,101 +3,255 @@
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
 import { spawn, ChildProcess } from 'node:child_process';
+import { basename } from 'node:path';
 import { logger } from './utils/logger.js';
-import { ClangdError } from './utils/errors.js';
+import { ClangdError, ServerDownError } from './utils/errors.js';
 import { LSPClient } from './lsp-client.js';
-import { ClangdConfig } from './config-detector.js';
+import { LanguageServerConfig } from './config-detector.js';
+import { pathToUri } from './utils/uri.js';
+import { IndexStatus, ProgressOperation, ProgressTracker } from './progress-tracker.js';
+import {
+  DEFAULT_POSITION_ENCODING,
+  PositionEncoding,
+  getColumnEncoding,
+  isPositionEncoding
+} from './utils/position-encoding.js';
+import {
+  MemoryMonitorOptions,
+  RestartPolicy,
+  WatchdogOptions,
+  getMemoryMonitorOptions,
+  getRestartDelay,
+  getRestartPolicy,
+  getWatchdogOptions
+} from './utils/restart-policy.js';
+import { Watchdog } from './watchdog.js';
+import { MemoryMonitor, MemorySample } from './memory-monitor.js';
 
 interface InitializeResult {
   capabilities: any;
+  /** clangd's pre-LSP 3.17 answer to offsetEncoding */
+  offsetEncoding?: string;
   serverInfo?: {
     name: string;
     version?: string;
   };
 }
 
+/**
+ * A crash of the language server, or a failed attempt to restart it
+ */
+export interface CrashRecord {
+  time: number;
+  exitCode: number | null;
+  signal: string | null;
+  /** Why the process was killed or a restart failed, if it did not just exit */
+  error?: string;
+  /** Last lines the server wrote to stderr */
+  stderr: string[];
+}
+
+/**
+ * Manages the lifecycle of a language server process (clangd by default,
+ * or any server described by a LanguageServerProfile)
+ */
 export class ClangdManager {
-  private config: ClangdConfig;
+  private config: LanguageServerConfig;
   private process?: ChildProcess;
   private lspClient?: LSPClient;
   private initialized: boolean = false;
   private shuttingDown: boolean = false;
   private restartCount: number = 0;
-  private readonly maxRestarts: number = 3;
+  private readonly restartPolicy: RestartPolicy;
   private isRestarting: boolean = false;
+  private gaveUp: boolean = false;
+  private restartPromise?: Promise<void>;
+  private restartHandlers: Array<(client: LSPClient, reason: string) => Promise<void> | void> = [];
   private lastSuccessfulStart: number = 0;
-  private readonly stableOperationPeriodMs: number = 60000; // 1 minute
-
-  constructor(config: ClangdConfig) {
+  private progress: ProgressTracker = new ProgressTracker();
+  private crashes: CrashRecord[] = [];
+  private readonly maxCrashRecords: number = 10;
+  private stderrTail: string[] = [];
+  private readonly stderrTailLines: number = 20;
+  private watchdog: Watchdog;
+  // Why the watchdog killed the server, until its exit is recorded
+  private hangReason?: string;
+  private memoryMonitor: MemoryMonitor;
+  private readonly maxIdleWaitMs: number = 30000; // Wait for tool calls to finish before a memory restart
+  private activeToolCalls: number = 0;
+
+  constructor(
+    config: LanguageServerConfig,
+    restartPolicy: RestartPolicy = getRestartPolicy(),
+    watchdogOptions: WatchdogOptions = getWatchdogOptions(),
+    memoryOptions: MemoryMonitorOptions = getMemoryMonitorOptions()
+  ) {
     this.config = config;
+    this.restartPolicy = restartPolicy;
+    this.watchdog = new Watchdog(watchdogOptions, (reason) => this.handleHang(reason));
+    this.memoryMonitor = new MemoryMonitor(memoryOptions, (sample) => this.handleMemoryLimit(sample));
+  }
+
+  /**
+   * Name of the language server being managed
+   */
+  getServerName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Register a callback run with the new client after the server was
+   * restarted, after a crash, on request or to free memory, with the reason.
+   * State built on the old client (open files, diagnostics, notification
+   * handlers) must be rebuilt here.
+   */
+  onRestart(handler: (client: LSPClient, reason: string) => Promise<void> | void): void {
+    this.restartHandlers.push(handler);
+  }
+
+  /**
+   * Mark the server as used by a tool call until the returned function is
+   * called. A tool call may send several requests, and a memory restart
+   * waits for the whole call rather than for a gap between them.
+   */
+  beginToolCall(): () => void {
+    this.activeToolCalls++;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.activeToolCalls--;
+      }
+    };
   }
 
   /**
-   * Start clangd and initialize the LSP connection
+   * Wait for a restart in progress, including its restart callbacks.
+   * Resolves immediately if the server is not restarting.
+   */
+  async waitForRestart(): Promise<void> {
+    // A failed attempt may schedule the next one
+    while (this.restartPromise) {
+      await this.restartPromise;
+    }
+  }
+
+  /**
+   * Stop the server if it is running and start it again, e.g. after it was
+   * given up on. Clears the restart count; the crash history is kept.
+   */
+  async restart(): Promise<void> {
+    // Another restart may begin between waitForRestart() resolving and this resuming
+    do {
+      await this.waitForRestart();
+    } while (this.restartPromise);
+    logger.info(`Restarting ${this.config.name} on request`);
+
+    this.gaveUp = false;
+    this.restartCount = 0;
+
+    // Tool calls wait for the restart like for a crash. The failure is
+    // reported to the caller; waiting calls find the server not ready.
+    const restart = this.recycle('restarted on request');
+    this.restartPromise = restart
+      .catch(() => {})
+      .finally(() => {
+        this.restartPromise = undefined;
+      });
+    await restart;
+  }
+
+  /**
+   * Shut the server down gracefully and start a new one in its place
+   */
+  private async recycle(reason: string): Promise<void> {
+    await this.shutdown(new ClangdError(`${this.config.name} is being restarted (${reason})`));
+    this.shuttingDown = false;
+
+    await this.start();
+    await this.runRestartHandlers(reason);
+  }
+
+  /**
+   * Start the language server and initialize the LSP connection
    */
   async start(): Promise<void> {
     if (this.process) {
-      logger.warn('Clangd already running');
+      logger.warn(`${this.config.name} already running`);
       return;
     }
 
     try {
-      await this.spawnClangd();
+      await this.spawnServer();
       await this.initialize();
       this.initialized = true;
 
       // Reset restart count if we've had a stable operation period
       if (this.restartCount > 0) {
         const timeSinceLastStart = Date.now() - this.lastSuccessfulStart;
-        if (timeSinceLastStart >= this.stableOperationPeriodMs) {
+        if (timeSinceLastStart >= this.restartPolicy.stableOperationPeriodMs) {
           logger.info('Stable operation detected, resetting restart counter');
           this.restartCount = 0;
         }
       }
 
       this.lastSuccessfulStart = Date.now();
+      this.watchdog.start(this.lspClient!);
+      this.memoryMonitor.start(this.lspClient!, this.getPid());
 
-      logger.info('Clangd started and initialized successfully');
+      logger.info(`${this.config.name} started and initialized successfully`);
     } catch (error) {
-      logger.error('Failed to start clangd:', error);
+      logger.error(`Failed to start ${this.config.name}:`, error);
       await this.cleanup();
-      throw new ClangdError('Failed to start clangd: ' + error);
+      throw new ClangdError(`Failed to start ${this.config.name}: ` + error);
     }
   }
 
   /**
-   * Spawn the clangd process
+   * Spawn the language server process
    */
-  private async spawnClangd(): Promise<void> {
-    logger.info('Spawning clangd:', this.config.clangdPath, this.config.clangdArgs);
+  private async spawnServer(): Promise<void> {
+    logger.info(`Spawning ${this.config.name}:`, this.config.command, this.config.args);
 
-    this.process = spawn(this.config.clangdPath, this.config.clangdArgs, {
+    const child = spawn(this.config.command, this.config.args, {
       stdio: ['pipe', 'pipe', 'pipe'],
       cwd: this.config.projectRoot
     });
+    this.process = child;
+    this.stderrTail = [];
 
     if (!this.process.stdin || !this.process.stdout || !this.process.stderr) {
-      throw new ClangdError('Failed to create clangd stdio streams');
+      throw new ClangdError(`Failed to create ${this.config.name} stdio streams`);
     }
 
     // Create LSP client
     this.lspClient = new LSPClient(this.process.stdin, this.process.stdout);
 
+    // Track work-done progress, e.g. clangd's background indexing
+    this.lspClient.onNotification('$/progress', (params: any) => {
+      this.progress.handleProgress(params);
+    });
+
     // Handle process events
     this.process.on('error', (error) => {
-      logger.error('Clangd process error:', error);
+      logger.error(`${this.config.name} process error:`, error);
     });
 
     this.process.on('exit', (code, signal) => {
-      logger.warn(`Clangd process exited with code ${code}, signal ${signal}`);
-      this.handleProcessExit(code, signal);
+      logger.warn(`${this.config.name} process exited with code ${code}, signal ${signal}`);
+      // A process that was already replaced or cleaned up has nothing to restart
+      if (child === this.process) {
+        this.handleProcessExit(code, signal);
+      }
     });
 
-    // Log stderr output
+    // Log stderr output, keeping the last lines for the crash history
     this.process.stderr.on('data', (data: Buffer) => {
       const message = data.toString().trim();
       if (message) {
-        logger.debug('Clangd stderr:', message);
+        logger.debug(`${this.config.name} stderr:`, message);
+        this.stderrTail.push(...message.split('\n'));
+        this.stderrTail.splice(0, this.stderrTail.length - this.stderrTailLines);
       }
     });
 
@@ -105,12 +259,12 @@ export class ClangdManager {
     await new Promise(resolve => setTimeout(resolve, 100));
 
     if (!this.process || this.process.exitCode !== null) {
-      throw new ClangdError('Clangd process failed to start');
+      throw new ClangdError(`${this.config.name} process failed to start`);
     }
   }
 
   /**
-   * Initialize the LSP connection with clangd
+   * Initialize the LSP connection with the language server
    */
   private async initialize(): Promise<void> {
     if (!this.lspClient) {
@@ -119,28 +273,59 @@ export class ClangdManager {
 
     logger.info('Initializing LSP connection');
 
+    // Offer the encoding tool columns are in first, so that positions need no
+    // conversion; UTF-16 is the fallback every server supports
+    const positionEncodings = [...new Set([getColumnEncoding(), DEFAULT_POSITION_ENCODING])];
+
+    const rootUri = pathToUri(this.config.projectRoot);
     const initializeParams = {
       processId: process.pid,
       clientInfo: {
-        name: 'clangd-mcp-server',
+        name: 'language-server-mcp',
         version: '0.1.0'
       },
-      rootUri: `file://${this.config.projectRoot}`,
+      rootUri,
+      workspaceFolders: [{ uri: rootUri, name: basename(this.config.projectRoot) }],
       capabilities: {
+        general: {
+          positionEncodings
+        },
+        // clangd's extension for the same, from before LSP 3.17
+        offsetEncoding: positionEncodings,
         textDocument: {
+          synchronization: { didSave: true },
+          publishDiagnostics: { relatedInformation: true, versionSupport: true },
           definition: { linkSupport: true },
           references: {},
           hover: { contentFormat: ['markdown', 'plaintext'] },
           implementation: { linkSupport: true },
           documentSymbol: {
             hierarchicalDocumentSymbolSupport: true
+          },
+          rename: { prepareSupport: true },
+          codeAction: {
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: ['quickfix', 'refactor', 'refactor.extract', 'refactor.inline', 'refactor.rewrite', 'source']
+              }
+            },
+            isPreferredSupport: true,
+            dataSupport: true,
+            resolveSupport: { properties: ['edit'] }
           }
         },
+        window: {
+          workDoneProgress: true
+        },
         workspace: {
-          symbol: {}
+          workspaceFolders: true,
+          symbol: {},
+          workspaceEdit: { documentChanges: true },
+          applyEdit: true,
+          executeCommand: {}
         }
       },
-      initializationOptions: {}
+      initializationOptions: this.config.profile.initializationOptions ?? {}
     };
 
     try {
@@ -152,6 +337,9 @@ export class ClangdManager {
 
       logger.info('LSP initialized:', result.serverInfo);
 
+      const positionEncoding = result.capabilities?.positionEncoding ?? result.offsetEncoding;
+      this.lspClient.setPositionEncoding(this.toPositionEncoding(positionEncoding));
+
       // Send initialized notification
       this.lspClient.notify('initialized', {});
 
@@ -162,20 +350,46 @@ export class ClangdManager {
   }
 
   /**
-   * Handle clangd process exit
+   * Check the position encoding a server chose; none means UTF-16
+   */
+  private toPositionEncoding(encoding: unknown): PositionEncoding {
+    if (encoding === undefined) {
+      return DEFAULT_POSITION_ENCODING;
+    }
+    if (!isPositionEncoding(encoding)) {
+      logger.warn(`${this.config.name} chose unsupported position encoding '${encoding}', assuming UTF-16`);
+      return DEFAULT_POSITION_ENCODING;
+    }
+    logger.info(`${this.config.name} uses ${encoding} positions`);
+    return encoding;
+  }
+
+  /**
+   * Handle language server process exit
    */
   private handleProcessExit(code: number | null, signal: string | null): void {
     if (this.shuttingDown) {
-      logger.info('Clangd shut down gracefully');
+      logger.info(`${this.config.name} shut down gracefully`);
       return;
     }
 
-    logger.error('Clangd crashed unexpectedly');
+    logger.error(`${this.config.name} crashed unexpectedly`);
+    this.recordCrash({
+      time: Date.now(),
+      exitCode: code,
+      signal,
+      error: this.hangReason !== undefined ? `Not responding: ${this.hangReason}` : undefined,
+      stderr: [...this.stderrTail]
+    });
+    this.hangReason = undefined;
 
     // Clean up current state
+    this.watchdog.stop();
+    this.memoryMonitor.stop();
     this.process = undefined;
     this.lspClient = undefined;
     this.initialized = false;
+    this.progress.clear();
 
     // Prevent concurrent restart attempts
     if (this.isRestarting) {
@@ -185,43 +399,192 @@ export class ClangdManager {
 
     // Reset restart count if we've had stable operation
     const timeSinceLastStart = Date.now() - this.lastSuccessfulStart;
-    if (timeSinceLastStart >= this.stableOperationPeriodMs && this.restartCount > 0) {
+    if (timeSinceLastStart >= this.restartPolicy.stableOperationPeriodMs && this.restartCount > 0) {
       logger.info('Stable operation period elapsed, resetting restart counter');
       this.restartCount = 0;
     }
 
-    // Attempt restart if under limit
-    if (this.restartCount < this.maxRestarts) {
-      this.restartCount++;
-      this.isRestarting = true;
-      logger.warn(`Attempting to restart clangd (attempt ${this.restartCount}/${this.maxRestarts})`);
+    this.scheduleRestart();
+  }
+
+  /**
+   * Kill a server the watchdog judged hung. Its exit is then handled like a
+   * crash, so the restart policy applies.
+   */
+  private handleHang(reason: string): void {
+    if (!this.process || this.shuttingDown) {
+      return;
+    }
+
+    logger.error(`${this.config.name} is not responding (${reason}), killing it`);
+    this.hangReason = reason;
+    this.lspClient?.failPendingRequests(
+      new ClangdError(`${this.config.name} stopped responding (${reason}) and is being restarted`)
+    );
+    this.process.kill('SIGKILL');
+  }
+
+  /**
+   * Restart a server that grew past the memory limit once no tool call is
+   * using it. Tool calls wait for the restart like for a crash.
+   */
+  private handleMemoryLimit(sample: MemorySample): void {
+    if (this.restartPromise || this.shuttingDown || !this.isReady()) {
+      return;
+    }
+
+    const usedMb = Math.round((sample.rssBytes ?? sample.serverBytes ?? 0) / (1024 * 1024));
+    const limitMb = Math.round(this.memoryMonitor.getLimitBytes() / (1024 * 1024));
+    const reason = `memory use of ${usedMb} MB exceeded the ${limitMb} MB limit`;
+    logger.warn(`${this.config.name} ${reason}, restarting it`);
+
+    this.restartPromise = (async () => {
+      if (!await this.waitForIdle()) {
+        logger.warn(`${this.config.name} stayed busy, postponing the memory restart`);
+        return;
+      }
+      await this.recycle(reason);
+    })()
+      .catch((error) => {
+        logger.error(`Failed to restart ${this.config.name} after exceeding the memory limit:`, error);
+      })
+      .finally(() => {
+        this.restartPromise = undefined;
+      });
+  }
+
+  /**
+   * Wait until no tool call is using the server, so that a restart does
+   * not fail them. Returns false if the server stayed busy.
+   */
+  private async waitForIdle(): Promise<boolean> {
+    const deadline = Date.now() + this.maxIdleWaitMs;
+    while (this.activeToolCalls > 0) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return true;
+  }
+
+  /**
+   * Restart the server after the policy's delay, or give up once the
+   * policy's attempts are used up. A failed restart counts as an attempt.
+   */
+  private scheduleRestart(): void {
+    const { maxRestarts } = this.restartPolicy;
+    if (this.restartCount >= maxRestarts) {
+      this.gaveUp = true;
+      logger.error(`Max restart attempts reached, giving up on ${this.config.name}`);
+      return;
+    }
 
+    this.restartCount++;
+    this.isRestarting = true;
+    const delayMs = getRestartDelay(this.restartPolicy, this.restartCount);
+    logger.warn(
+      `Attempting to restart ${this.config.name} in ${delayMs}ms (attempt ${this.restartCount}/${maxRestarts})`
+    );
+
+    this.restartPromise = new Promise<void>((resolve) => {
       setTimeout(() => {
+        let failed = false;
         this.start()
-          .then(() => {
-            this.isRestarting = false;
-            logger.info('Clangd restarted successfully');
+          .then(async () => {
+            logger.info(`${this.config.name} restarted successfully`);
+            await this.runRestartHandlers(`crashed (${describeCrash(this.crashes[this.crashes.length - 1])})`);
           })
           .catch((error) => {
+            failed = true;
+            logger.error(`Failed to restart ${this.config.name}:`, error);
+            this.recordCrash({
+              time: Date.now(),
+              exitCode: null,
+              signal: null,
+              error: error instanceof Error ? error.message : String(error),
+              stderr: [...this.stderrTail]
+            });
+          })
+          .finally(() => {
             this.isRestarting = false;
-            logger.error('Failed to restart clangd:', error);
+            this.restartPromise = undefined;
+            if (failed && !this.shuttingDown) {
+              this.scheduleRestart();
+            }
+            resolve();
           });
-      }, 1000 * this.restartCount); // Exponential backoff
-    } else {
-      logger.error('Max restart attempts reached, giving up');
+      }, delayMs);
+    });
+  }
+
+  private recordCrash(crash: CrashRecord): void {
+    this.crashes.push(crash);
+    this.crashes.splice(0, this.crashes.length - this.maxCrashRecords);
+  }
+
+  /**
+   * Recent crashes and failed restarts, oldest first
+   */
+  getCrashHistory(): CrashRecord[] {
+    return [...this.crashes];
+  }
+
+  /**
+   * Whether the server crashed more often than the restart policy allows
+   * and is no longer restarted automatically
+   */
+  hasGivenUp(): boolean {
+    return this.gaveUp;
+  }
+
+  /**
+   * Error explaining why the server is down and how to bring it back
+   */
+  getDownError(): ServerDownError {
+    const last = this.crashes[this.crashes.length - 1];
+    const cause = last ? describeCrash(last) : 'stopped';
+
+    return new ServerDownError(
+      `${this.config.name} is down: it kept crashing and was given up on after ` +
+      `${this.restartPolicy.maxRestarts} restart attempts (last: ${cause}). ` +
+      `Call restart_clangd with server '${this.config.name}' to start it again.`,
+      {
+        server: this.config.name,
+        restart_attempts: this.restartPolicy.maxRestarts,
+        crashes: this.crashes.map(formatCrash),
+        hint: `Call restart_clangd with server '${this.config.name}' to start it again`
+      }
+    );
+  }
+
+  /**
+   * Let the state built on the old client catch up with the restarted server
+   */
+  private async runRestartHandlers(reason: string): Promise<void> {
+    const client = this.getClient();
+    for (const handler of this.restartHandlers) {
+      try {
+        await handler(client, reason);
+      } catch (error) {
+        logger.error(`Error restoring state after ${this.config.name} restart:`, error);
+      }
     }
   }
 
   /**
-   * Gracefully shutdown clangd
+   * Gracefully shutdown the language server. Requests still waiting for a
+   * response are rejected with the given error.
    */
-  async shutdown(): Promise<void> {
+  async shutdown(error: Error = new ClangdError(`${this.config.name} was shut down`)): Promise<void> {
     if (!this.process || this.shuttingDown) {
       return;
     }
 
     this.shuttingDown = true;
-    logger.info('Shutting down clangd');
+    logger.info(`Shutting down ${this.config.name}`);
+    // Before the server exits and the connection reports only that it closed
+    this.lspClient?.failPendingRequests(error);
 
     try {
       if (this.lspClient && this.initialized) {
@@ -237,32 +600,37 @@ export class ClangdManager {
       logger.warn('Error during graceful shutdown:', error);
     }
 
-    await this.cleanup();
+    await this.cleanup(error);
   }
 
   /**
-   * Force cleanup of clangd resources
+   * Force cleanup of language server resources
    */
-  private async cleanup(): Promise<void> {
+  private async cleanup(error: Error = new ClangdError(`${this.config.name} was shut down`)): Promise<void> {
+    this.watchdog.stop();
+    this.memoryMonitor.stop();
+
     if (this.lspClient) {
+      this.lspClient.failPendingRequests(error);
       this.lspClient.close();
       this.lspClient = undefined;
     }
 
     if (this.process && this.process.exitCode === null) {
-      logger.info('Killing clangd process');
+      logger.info(`Killing ${this.config.name} process`);
       this.process.kill('SIGTERM');
 
       // Force kill after timeout
       await new Promise(resolve => setTimeout(resolve, 2000));
       if (this.process && this.process.exitCode === null) {
-        logger.warn('Force killing clangd process');
+        logger.warn(`Force killing ${this.config.name} process`);
         this.process.kill('SIGKILL');
       }
     }
 
     this.process = undefined;
     this.initialized = false;
+    this.progress.clear();
 
     // Reset flags only if not shutting down (cleanup during restart vs shutdown)
     if (!this.shuttingDown) {
@@ -274,16 +642,84 @@ export class ClangdManager {
    * Get the LSP client
    */
   getClient(): LSPClient {
+    if (this.gaveUp) {
+      throw this.getDownError();
+    }
     if (!this.lspClient || !this.initialized) {
-      throw new ClangdError('Clangd not initialized');
+      throw new ClangdError(`${this.config.name} not initialized`);
     }
     return this.lspClient;
   }
 
   /**
-   * Check if clangd is running and initialized
+   * Background indexing state reported through $/progress
+   */
+  getIndexStatus(): IndexStatus {
+    return this.progress.getIndexStatus();
+  }
+
+  /**
+   * Progress operations the server is currently running
+   */
+  getProgressOperations(): ProgressOperation[] {
+    return this.progress.getOperations();
+  }
+
+  /**
+   * Process ID of the running server
+   */
+  getPid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  /**
+   * When the running server was started, in milliseconds since the epoch
+   */
+  getStartedAt(): number | undefined {
+    return this.isReady() ? this.lastSuccessfulStart : undefined;
+  }
+
+  /**
+   * Memory limit in bytes above which the server is restarted (0 for none)
+   */
+  getMemoryLimit(): number {
+    return this.memoryMonitor.getLimitBytes();
+  }
+
+  /**
+   * Sample the server's memory use now, falling back to the last sample
+   */
+  async sampleMemory(): Promise<MemorySample | undefined> {
+    return (await this.memoryMonitor.sample()) ?? this.memoryMonitor.getLastSample();
+  }
+
+  /**
+   * Check if the language server is running and initialized
    */
   isReady(): boolean {
     return this.initialized && !!this.process && this.process.exitCode === null;
   }
 }
+
+/**
+ * Short description of how the server went down
+ */
+function describeCrash(crash: CrashRecord): string {
+  if (crash.error !== undefined) {
+    return crash.error;
+  }
+  return `exited with ${crash.signal ? `signal ${crash.signal}` : `code ${crash.exitCode}`}`;
+}
+
+/**
+ * Format a crash record for tool output
+ */
+export function formatCrash(crash: CrashRecord): Record<string, unknown> {
+  return {
+    time: new Date(crash.time).toISOString(),
+    exit_code: crash.exitCode,
+    signal: crash.signal,
+    error: crash.error,
+    stderr: crash.stderr
+  };
+}
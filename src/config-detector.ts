@@ -6,6 +6,7 @@ import { existsSync } from 'node:fs';
 import { join, resolve, dirname } from 'node:path';
 import { spawnSync } from 'node:child_process';
 import { logger } from './utils/logger.js';
+import { LanguageServerProfile, builtinProfiles, loadLanguageServerProfiles } from './language-servers.js';
 
 export interface ClangdConfig {
   clangdPath: string;
@@ -15,6 +16,17 @@ export interface ClangdConfig {
   isChromiumProject: boolean;
 }
 
+/**
+ * Resolved settings for spawning one language server
+ */
+export interface LanguageServerConfig {
+  name: string;
+  command: string;
+  args: string[];
+  projectRoot: string;
+  profile: LanguageServerProfile;
+}
+
 /**
  * Detect if project is a Chromium project by checking for bundled clangd
  * Only consider it a Chromium project if the bundled clangd exists,
@@ -149,10 +161,71 @@ export function detectConfiguration(): ClangdConfig {
   };
 }
 
+/**
+ * Environment variable prefix for a server, e.g. 'rust-analyzer' -> 'RUST_ANALYZER'
+ */
+function envPrefix(serverName: string): string {
+  return serverName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Detect the configuration for a language server.
+ *
+ * The server is chosen by name (default: LANGUAGE_SERVER, then clangd) from
+ * the built-in profiles and the language server config file. clangd keeps its
+ * own detection (bundled binaries, compile_commands.json); other servers can
+ * be customized with <NAME>_PATH and <NAME>_ARGS, e.g. RUST_ANALYZER_PATH.
+ */
+export function detectLanguageServerConfiguration(
+  serverName: string = process.env.LANGUAGE_SERVER || 'clangd'
+): LanguageServerConfig {
+  const projectRoot = resolve(process.env.PROJECT_ROOT || process.cwd());
+  const profiles = loadLanguageServerProfiles(projectRoot);
+  const profile = profiles[serverName];
+
+  if (!profile) {
+    throw new Error(
+      `Unknown language server '${serverName}'. Available: ${Object.keys(profiles).join(', ')}`
+    );
+  }
+
+  if (serverName === 'clangd') {
+    const clangdConfig = detectConfiguration();
+    // CLANGD_PATH wins over a command from the config file, which wins over auto-detection
+    const command = !process.env.CLANGD_PATH && profile.command !== builtinProfiles.clangd.command
+      ? profile.command
+      : clangdConfig.clangdPath;
+    return {
+      name: serverName,
+      command,
+      args: [...profile.args, ...clangdConfig.clangdArgs],
+      projectRoot: clangdConfig.projectRoot,
+      profile
+    };
+  }
+
+  const prefix = envPrefix(serverName);
+  const command = process.env[`${prefix}_PATH`] || profile.command;
+  const args = [...profile.args];
+  if (process.env[`${prefix}_ARGS`]) {
+    args.push(...parseShellArgs(process.env[`${prefix}_ARGS`]!));
+  }
+
+  logger.info(`Using ${serverName}:`, command, args.join(' '));
+
+  return {
+    name: serverName,
+    command,
+    args,
+    projectRoot,
+    profile
+  };
+}
+
 /**
  * Search for compile_commands.json in standard locations
  */
-function findCompileCommands(projectRoot: string): string | undefined {
+export function findCompileCommands(projectRoot: string): string | undefined {
   // Check explicit environment variable first
   if (process.env.COMPILE_COMMANDS_DIR) {
     const explicitPath = resolve(process.env.COMPILE_COMMANDS_DIR, 'compile_commands.json');
@@ -184,7 +257,7 @@ function findCompileCommands(projectRoot: string): string | undefined {
 /**
  * Parse shell arguments handling quotes and escapes
  */
-function parseShellArgs(input: string): string[] {
+export function parseShellArgs(input: string): string[] {
   const args: string[] = [];
   let current = '';
   let inSingleQuote = false;
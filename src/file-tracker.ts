@@ -2,24 +2,55 @@
 // License, v. 2.0. If a copy of the MPL was not distributed with this
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
-import { readFile } from 'node:fs/promises';
+import { readFile, stat } from 'node:fs/promises';
+import { watch, FSWatcher } from 'node:fs';
+import { createHash } from 'node:crypto';
 import { logger } from './utils/logger.js';
 import { normalizeToUri, uriToPath } from './utils/uri.js';
 import { LSPClient } from './lsp-client.js';
+import { LanguageServerProfile, builtinProfiles, getLanguageId } from './language-servers.js';
+
+/**
+ * State of a file opened in the LSP server
+ */
+interface OpenFile {
+  lastAccess: number;
+  version: number;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  watcher?: FSWatcher;
+  syncTimer?: NodeJS.Timeout;
+}
+
+export interface FileTrackerOptions {
+  /** Watch open files with fs.watch and sync changes as they happen */
+  watchFiles?: boolean;
+  /** Language server whose extension -> language ID mapping is used (default: clangd) */
+  profile?: LanguageServerProfile;
+}
 
 /**
  * Tracks which files have been opened in the LSP server
- * and manages didOpen/didClose notifications with LRU eviction
+ * and manages didOpen/didChange/didClose notifications with LRU eviction
  */
 export class FileTracker {
-  private openFiles: Map<string, number> = new Map(); // URI -> last access timestamp
+  private openFiles: Map<string, OpenFile> = new Map();
   private inFlightOpens: Set<string> = new Set(); // URIs currently being opened
+  private inFlightSyncs: Map<string, Promise<boolean>> = new Map(); // URIs currently being synced
   private lspClient: LSPClient;
   private readonly maxOpenFiles: number = 100; // Maximum files to keep open
+  private readonly maxReopenedFiles: number = 20; // Files opened again after a server restart
+  private readonly watchDebounceMs: number = 100;
+  private readonly watchFiles: boolean;
+  private readonly profile: LanguageServerProfile;
   private onFileClosedCallback?: (uri: string) => void;
+  private onFileChangedCallback?: (uri: string, version: number) => void;
 
-  constructor(lspClient: LSPClient) {
+  constructor(lspClient: LSPClient, options: FileTrackerOptions = {}) {
     this.lspClient = lspClient;
+    this.watchFiles = options.watchFiles === true;
+    this.profile = options.profile ?? builtinProfiles.clangd;
   }
 
   /**
@@ -29,6 +60,14 @@ export class FileTracker {
     this.onFileClosedCallback = callback;
   }
 
+  /**
+   * Register a callback that gets called when an open file's content
+   * changed on disk and was re-sent to the server with a new version
+   */
+  onFileChanged(callback: (uri: string, version: number) => void): void {
+    this.onFileChangedCallback = callback;
+  }
+
   /**
    * Ensure a file is opened in the LSP server before making queries
    * Returns the normalized URI
@@ -36,9 +75,11 @@ export class FileTracker {
   async ensureFileOpen(filePath: string): Promise<string> {
     const uri = normalizeToUri(filePath);
 
-    if (this.openFiles.has(uri)) {
-      // Update last access time
-      this.openFiles.set(uri, Date.now());
+    const openFile = this.openFiles.get(uri);
+    if (openFile) {
+      // Update last access time and pick up any on-disk edits
+      openFile.lastAccess = Date.now();
+      await this.syncFile(uri);
       return uri;
     }
 
@@ -49,8 +90,9 @@ export class FileTracker {
         await new Promise(resolve => setTimeout(resolve, 10));
       }
       // File should now be open, update access time and return
-      if (this.openFiles.has(uri)) {
-        this.openFiles.set(uri, Date.now());
+      const opened = this.openFiles.get(uri);
+      if (opened) {
+        opened.lastAccess = Date.now();
         return uri;
       }
       // If not open (open failed), fall through to try opening ourselves
@@ -80,9 +122,9 @@ export class FileTracker {
     let oldestUri: string | null = null;
     let oldestTime = Infinity;
 
-    for (const [uri, time] of this.openFiles.entries()) {
-      if (time < oldestTime) {
-        oldestTime = time;
+    for (const [uri, file] of this.openFiles.entries()) {
+      if (file.lastAccess < oldestTime) {
+        oldestTime = file.lastAccess;
         oldestUri = uri;
       }
     }
@@ -92,6 +134,7 @@ export class FileTracker {
       this.lspClient.notify('textDocument/didClose', {
         textDocument: { uri: oldestUri }
       });
+      this.stopWatching(this.openFiles.get(oldestUri)!);
       this.openFiles.delete(oldestUri);
 
       // Notify callback
@@ -108,10 +151,10 @@ export class FileTracker {
     try {
       const fsPath = uriToPath(uri);
       // Use async readFile to avoid blocking the event loop on large files
-      const content = await readFile(fsPath, 'utf-8');
+      const [content, stats] = await Promise.all([readFile(fsPath, 'utf-8'), stat(fsPath)]);
 
       // Determine language ID from file extension
-      const languageId = getLanguageId(fsPath);
+      const languageId = getLanguageId(this.profile, fsPath);
 
       logger.debug('Opening file:', uri);
 
@@ -124,7 +167,19 @@ export class FileTracker {
         }
       });
 
-      this.openFiles.set(uri, Date.now());
+      const openFile: OpenFile = {
+        lastAccess: Date.now(),
+        version: 1,
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        hash: hashContent(content)
+      };
+      this.openFiles.set(uri, openFile);
+
+      if (this.watchFiles) {
+        this.startWatching(uri, fsPath, openFile);
+      }
+
       logger.info('Opened file:', uri);
     } catch (error) {
       logger.error('Failed to open file:', uri, error);
@@ -132,13 +187,129 @@ export class FileTracker {
     }
   }
 
+  /**
+   * Re-read an open file if it changed on disk and send its new content via
+   * textDocument/didChange and didSave. Returns true if the server was updated.
+   * Concurrent calls for the same file share one sync. With force, the
+   * content is compared even if mtime and size are unchanged, since mtime
+   * granularity can hide a same-size rewrite.
+   */
+  private syncFile(uri: string, force: boolean = false): Promise<boolean> {
+    const inFlight = this.inFlightSyncs.get(uri);
+    if (inFlight) {
+      // A sync that started earlier may have read the file before the caller's write
+      return force ? inFlight.then(() => this.syncFile(uri, true)) : inFlight;
+    }
+
+    const sync = this.doSyncFile(uri, force).finally(() => {
+      this.inFlightSyncs.delete(uri);
+    });
+    this.inFlightSyncs.set(uri, sync);
+    return sync;
+  }
+
+  private async doSyncFile(uri: string, force: boolean): Promise<boolean> {
+    const openFile = this.openFiles.get(uri);
+    if (!openFile) {
+      return false;
+    }
+
+    const fsPath = uriToPath(uri);
+    let content: string;
+    try {
+      const stats = await stat(fsPath);
+      if (!force && stats.mtimeMs === openFile.mtimeMs && stats.size === openFile.size) {
+        return false;
+      }
+      openFile.mtimeMs = stats.mtimeMs;
+      openFile.size = stats.size;
+      content = await readFile(fsPath, 'utf-8');
+    } catch (error) {
+      // The file was deleted or became unreadable; stop tracking it
+      logger.warn('Open file is no longer readable, closing:', uri, error);
+      this.closeFile(uri);
+      return false;
+    }
+
+    // Touching a file without changing it should not trigger a reparse
+    const hash = hashContent(content);
+    if (hash === openFile.hash || !this.openFiles.has(uri)) {
+      return false;
+    }
+
+    openFile.hash = hash;
+    openFile.version++;
+
+    logger.info(`File changed on disk, sending version ${openFile.version}:`, uri);
+
+    this.lspClient.notify('textDocument/didChange', {
+      textDocument: { uri, version: openFile.version },
+      contentChanges: [{ text: content }]
+    });
+    this.lspClient.notify('textDocument/didSave', {
+      textDocument: { uri }
+    });
+
+    if (this.onFileChangedCallback) {
+      this.onFileChangedCallback(uri, openFile.version);
+    }
+
+    return true;
+  }
+
+  /**
+   * Sync an open file with its on-disk content, e.g. after editing it.
+   * Does nothing if the file is not open.
+   */
+  async refreshFile(filePath: string): Promise<boolean> {
+    return this.syncFile(normalizeToUri(filePath), true);
+  }
+
+  /**
+   * Watch an open file and sync it shortly after it changes
+   */
+  private startWatching(uri: string, fsPath: string, openFile: OpenFile): void {
+    try {
+      openFile.watcher = watch(fsPath, { persistent: false }, () => {
+        // Editors often write in several steps; debounce before syncing
+        if (openFile.syncTimer) {
+          clearTimeout(openFile.syncTimer);
+        }
+        openFile.syncTimer = setTimeout(() => {
+          openFile.syncTimer = undefined;
+          this.syncFile(uri).catch(error => {
+            logger.error('Failed to sync file:', uri, error);
+          });
+        }, this.watchDebounceMs);
+      });
+      openFile.watcher.on('error', (error) => {
+        logger.warn('File watcher error:', uri, error);
+        this.stopWatching(openFile);
+      });
+    } catch (error) {
+      logger.warn('Failed to watch file, changes will be picked up on access:', uri, error);
+    }
+  }
+
+  private stopWatching(openFile: OpenFile): void {
+    if (openFile.syncTimer) {
+      clearTimeout(openFile.syncTimer);
+      openFile.syncTimer = undefined;
+    }
+    if (openFile.watcher) {
+      openFile.watcher.close();
+      openFile.watcher = undefined;
+    }
+  }
+
   /**
    * Close a file in the LSP server via textDocument/didClose
    */
   closeFile(filePath: string): void {
     const uri = normalizeToUri(filePath);
 
-    if (!this.openFiles.has(uri)) {
+    const openFile = this.openFiles.get(uri);
+    if (!openFile) {
       return;
     }
 
@@ -148,6 +319,7 @@ export class FileTracker {
       textDocument: { uri }
     });
 
+    this.stopWatching(openFile);
     this.openFiles.delete(uri);
 
     // Notify callback
@@ -164,10 +336,11 @@ export class FileTracker {
   closeAll(): void {
     logger.info(`Closing ${this.openFiles.size} opened files`);
 
-    for (const uri of this.openFiles.keys()) {
+    for (const [uri, openFile] of this.openFiles.entries()) {
       this.lspClient.notify('textDocument/didClose', {
         textDocument: { uri }
       });
+      this.stopWatching(openFile);
 
       // Notify callback for each file
       if (this.onFileClosedCallback) {
@@ -178,6 +351,40 @@ export class FileTracker {
     this.openFiles.clear();
   }
 
+  /**
+   * Switch to the client of a restarted server. The new server has no open
+   * files, so the most recently used ones are opened again and the rest are
+   * forgotten. Returns the URIs that were reopened.
+   */
+  async rebind(lspClient: LSPClient): Promise<string[]> {
+    this.lspClient = lspClient;
+
+    const recent = [...this.openFiles.entries()]
+      .sort(([, a], [, b]) => b.lastAccess - a.lastAccess)
+      .map(([uri]) => uri);
+
+    for (const [uri, openFile] of this.openFiles.entries()) {
+      this.stopWatching(openFile);
+      if (this.onFileClosedCallback) {
+        this.onFileClosedCallback(uri);
+      }
+    }
+    this.openFiles.clear();
+
+    const reopened: string[] = [];
+    for (const uri of recent.slice(0, this.maxReopenedFiles)) {
+      try {
+        await this.openFile(uri);
+        reopened.push(uri);
+      } catch (error) {
+        logger.warn('Could not reopen file after restart:', uri, error);
+      }
+    }
+
+    logger.info(`Reopened ${reopened.length} of ${recent.length} files after restart`);
+    return reopened;
+  }
+
   /**
    * Get the set of currently opened file URIs
    */
@@ -195,30 +402,8 @@ export class FileTracker {
 }
 
 /**
- * Determine the LSP language ID from file extension
+ * Hash file content to detect real changes when the mtime moves
  */
-function getLanguageId(filePath: string): string {
-  const ext = filePath.split('.').pop()?.toLowerCase();
-
-  switch (ext) {
-    case 'c':
-      return 'c';
-    case 'cc':
-    case 'cpp':
-    case 'cxx':
-    case 'c++':
-      return 'cpp';
-    case 'h':
-    case 'hh':
-    case 'hpp':
-    case 'hxx':
-    case 'h++':
-      return 'cpp'; // Headers are typically C++ in modern codebases
-    case 'm':
-      return 'objective-c';
-    case 'mm':
-      return 'objective-cpp';
-    default:
-      return 'cpp'; // Default to C++
-  }
+function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
 }
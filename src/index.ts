@@ -11,10 +11,26 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import { resolve } from 'node:path';
 import { logger } from './utils/logger.js';
-import { detectConfiguration } from './config-detector.js';
-import { ClangdManager } from './clangd-manager.js';
-import { FileTracker } from './file-tracker.js';
+import { LanguageServerRegistry, LanguageServerSession } from './server-registry.js';
+import { Range } from './utils/lsp-types.js';
+import { uriToPath } from './utils/uri.js';
+import { CancelledError, ServerDownError } from './utils/errors.js';
+import {
+  SymbolResolution,
+  resolveSymbolInDocument,
+  resolveSymbolInWorkspace,
+  formatSymbolCandidate
+} from './utils/symbol-resolver.js';
+import { getDefaultSearchRadius, resolvePosition } from './utils/position-resolver.js';
+import { IndexBase, getIndexBase, isIndexBase, rebaseResult } from './utils/index-base.js';
+import { relativizeResultPaths, resolveProjectPath } from './utils/project-paths.js';
+import { getIdleTimeout } from './utils/restart-policy.js';
+import { PathPolicy, createPathPolicy } from './utils/path-policy.js';
+import { findCompileCommands } from './config-detector.js';
+import { OutputFormat, outputFormats } from './utils/diagram.js';
+import { MAX_CONTEXT_LINES } from './utils/source-context.js';
 
 import { findDefinition } from './tools/find-definition.js';
 import { findReferences } from './tools/find-references.js';
@@ -22,17 +38,123 @@ import { getHover } from './tools/get-hover.js';
 import { workspaceSymbolSearch } from './tools/workspace-symbol.js';
 import { findImplementations } from './tools/find-implementations.js';
 import { getDocumentSymbols } from './tools/document-symbols.js';
-import { getDiagnostics, DiagnosticsCache } from './tools/get-diagnostics.js';
+import { getDiagnostics } from './tools/get-diagnostics.js';
 import { getCallHierarchy } from './tools/get-call-hierarchy.js';
 import { getTypeHierarchy } from './tools/get-type-hierarchy.js';
+import { getCallGraph, CallGraphDirection } from './tools/get-call-graph.js';
+import { getTypeTree, TypeTreeDirection } from './tools/get-type-tree.js';
+import { renameSymbol } from './tools/rename-symbol.js';
+import { getCodeActions, applyCodeAction } from './tools/code-actions.js';
+import { getIndexStatus, formatIndexStatus } from './tools/index-status.js';
+import { restartClangd } from './tools/restart-clangd.js';
+import { getServerStatus } from './tools/server-status.js';
 
 // Global state
-let clangdManager: ClangdManager | null = null;
-let fileTracker: FileTracker | null = null;
-let diagnosticsCache: DiagnosticsCache | null = null;
-let initializationPromise: Promise<void> | null = null;
+let registry: LanguageServerRegistry | null = null;
+// null until first use, undefined when RESTRICT_FILE_ACCESS is 'false'
+let pathPolicy: Promise<PathPolicy | undefined> | null = null;
 let isShuttingDown: boolean = false;
 
+/**
+ * Tools that take a position: line and column, or a symbol name
+ */
+const positionalTools = new Set([
+  'find_definition',
+  'find_references',
+  'get_hover',
+  'find_implementations',
+  'get_call_hierarchy',
+  'get_type_hierarchy',
+  'get_call_graph',
+  'get_type_tree',
+  'rename_symbol',
+  'get_code_actions',
+  'apply_code_action'
+]);
+
+/**
+ * Positional tools that take a range. Fix-its often sit on punctuation or
+ * whitespace (e.g. a missing ';'), so their positions are never snapped.
+ */
+const rangeTools = new Set([
+  'get_code_actions',
+  'apply_code_action'
+]);
+
+/**
+ * Tools that can render their result as a Mermaid or DOT diagram
+ */
+const diagramTools = new Set([
+  'get_call_hierarchy',
+  'get_type_hierarchy',
+  'get_call_graph',
+  'get_type_tree'
+]);
+
+/**
+ * Tools that query call or type hierarchy items and can pick one of several
+ * overloads with item_index or signature
+ */
+const hierarchyTools = new Set([
+  'get_call_hierarchy',
+  'get_type_hierarchy',
+  'get_call_graph',
+  'get_type_tree'
+]);
+
+/**
+ * Tools that accept context_lines to attach source snippets to locations
+ */
+const contextLineTools = new Set([
+  'find_definition',
+  'find_references',
+  'find_implementations',
+  'workspace_symbol_search',
+  'get_call_hierarchy',
+  'get_type_hierarchy'
+]);
+
+/**
+ * Validate a line or column argument: an integer no smaller than the index base
+ */
+function validatePositionNumber(args: any, key: string, base: IndexBase): void {
+  const value = args[key];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < base) {
+    throw new Error(`Invalid ${key}: must be a ${base === 0 ? 'non-negative' : 'positive'} integer`);
+  }
+}
+
+/**
+ * Validate the location of a positional tool: file_path, line and column,
+ * or a symbol name with an optional file_path
+ */
+function validatePositionArgs(args: any, base: IndexBase): void {
+  if (args.symbol !== undefined) {
+    if (typeof args.symbol !== 'string' || args.symbol.trim().length === 0) {
+      throw new Error('Invalid symbol: must be a non-empty string');
+    }
+    if (args.line !== undefined || args.column !== undefined) {
+      throw new Error('Specify either symbol or line and column, not both');
+    }
+    if (args.file_path !== undefined && typeof args.file_path !== 'string') {
+      throw new Error('Invalid file_path: must be a string');
+    }
+    return;
+  }
+
+  if (typeof args.file_path !== 'string') {
+    throw new Error('Invalid file_path: must be a string');
+  }
+  validatePositionNumber(args, 'line', base);
+  validatePositionNumber(args, 'column', base);
+  if (args.text !== undefined && (typeof args.text !== 'string' || args.text.length === 0)) {
+    throw new Error('Invalid text: must be a non-empty string');
+  }
+  if (args.search_radius !== undefined && (typeof args.search_radius !== 'number' || !Number.isInteger(args.search_radius) || args.search_radius < 0)) {
+    throw new Error('Invalid search_radius: must be a non-negative integer');
+  }
+}
+
 /**
  * Validate MCP tool arguments
  */
@@ -41,20 +163,39 @@ function validateToolArgs(name: string, args: any): void {
     throw new Error('Invalid arguments: must be an object');
   }
 
+  if (args.index_base !== undefined && !isIndexBase(args.index_base)) {
+    throw new Error('Invalid index_base: must be 0 or 1');
+  }
+  const base = args.index_base ?? getIndexBase();
+
+  if (diagramTools.has(name) && args.format !== undefined && !outputFormats.includes(args.format)) {
+    throw new Error(`Invalid format: must be one of ${outputFormats.join(', ')}`);
+  }
+
+  if (hierarchyTools.has(name)) {
+    if (args.item_index !== undefined && (typeof args.item_index !== 'number' || !Number.isInteger(args.item_index) || args.item_index < 0)) {
+      throw new Error('Invalid item_index: must be a non-negative integer');
+    }
+    if (args.signature !== undefined && (typeof args.signature !== 'string' || args.signature.trim().length === 0)) {
+      throw new Error('Invalid signature: must be a non-empty string');
+    }
+    if (args.item_index !== undefined && args.signature !== undefined) {
+      throw new Error('Specify either item_index or signature, not both');
+    }
+  }
+
+  if (contextLineTools.has(name) && args.context_lines !== undefined &&
+      (typeof args.context_lines !== 'number' || !Number.isInteger(args.context_lines) ||
+       args.context_lines < 0 || args.context_lines > MAX_CONTEXT_LINES)) {
+    throw new Error(`Invalid context_lines: must be an integer between 0 and ${MAX_CONTEXT_LINES}`);
+  }
+
   switch (name) {
     case 'find_definition':
     case 'find_references':
     case 'get_hover':
     case 'find_implementations':
-      if (typeof args.file_path !== 'string') {
-        throw new Error('Invalid file_path: must be a string');
-      }
-      if (typeof args.line !== 'number' || !Number.isInteger(args.line) || args.line < 0) {
-        throw new Error('Invalid line: must be a non-negative integer');
-      }
-      if (typeof args.column !== 'number' || !Number.isInteger(args.column) || args.column < 0) {
-        throw new Error('Invalid column: must be a non-negative integer');
-      }
+      validatePositionArgs(args, base);
       if (name === 'find_references' && args.include_declaration !== undefined && typeof args.include_declaration !== 'boolean') {
         throw new Error('Invalid include_declaration: must be a boolean');
       }
@@ -86,83 +227,492 @@ function validateToolArgs(name: string, args: any): void {
 
     case 'get_call_hierarchy':
     case 'get_type_hierarchy':
-      if (typeof args.file_path !== 'string') {
-        throw new Error('Invalid file_path: must be a string');
+      validatePositionArgs(args, base);
+      break;
+
+    case 'get_call_graph':
+      validatePositionArgs(args, base);
+      if (args.direction !== undefined && args.direction !== 'incoming' && args.direction !== 'outgoing') {
+        throw new Error("Invalid direction: must be 'incoming' or 'outgoing'");
       }
-      if (typeof args.line !== 'number' || !Number.isInteger(args.line) || args.line < 0) {
-        throw new Error('Invalid line: must be a non-negative integer');
+      if (args.max_depth !== undefined && (typeof args.max_depth !== 'number' || !Number.isInteger(args.max_depth) || args.max_depth < 1 || args.max_depth > 10)) {
+        throw new Error('Invalid max_depth: must be an integer between 1 and 10');
       }
-      if (typeof args.column !== 'number' || !Number.isInteger(args.column) || args.column < 0) {
-        throw new Error('Invalid column: must be a non-negative integer');
+      if (args.max_nodes !== undefined && (typeof args.max_nodes !== 'number' || !Number.isInteger(args.max_nodes) || args.max_nodes < 1 || args.max_nodes > 1000)) {
+        throw new Error('Invalid max_nodes: must be an integer between 1 and 1000');
       }
       break;
 
-    default:
-      // Unknown tool, will be caught by the switch below
+    case 'get_type_tree':
+      validatePositionArgs(args, base);
+      if (args.direction !== undefined && !['supertypes', 'subtypes', 'both'].includes(args.direction)) {
+        throw new Error("Invalid direction: must be 'supertypes', 'subtypes' or 'both'");
+      }
+      if (args.max_depth !== undefined && (typeof args.max_depth !== 'number' || !Number.isInteger(args.max_depth) || args.max_depth < 1 || args.max_depth > 10)) {
+        throw new Error('Invalid max_depth: must be an integer between 1 and 10');
+      }
+      if (args.max_nodes !== undefined && (typeof args.max_nodes !== 'number' || !Number.isInteger(args.max_nodes) || args.max_nodes < 1 || args.max_nodes > 1000)) {
+        throw new Error('Invalid max_nodes: must be an integer between 1 and 1000');
+      }
+      break;
+
+    case 'rename_symbol':
+      validatePositionArgs(args, base);
+      if (typeof args.new_name !== 'string' || args.new_name.length === 0) {
+        throw new Error('Invalid new_name: must be a non-empty string');
+      }
+      if (args.apply !== undefined && typeof args.apply !== 'boolean') {
+        throw new Error('Invalid apply: must be a boolean');
+      }
+      break;
+
+    case 'get_code_actions':
+    case 'apply_code_action':
+      validatePositionArgs(args, base);
+      if (args.end_line !== undefined) {
+        validatePositionNumber(args, 'end_line', base);
+      }
+      if (args.end_column !== undefined) {
+        validatePositionNumber(args, 'end_column', base);
+      }
+      if (args.include_diagnostics !== undefined && typeof args.include_diagnostics !== 'boolean') {
+        throw new Error('Invalid include_diagnostics: must be a boolean');
+      }
+      if (name === 'apply_code_action') {
+        if (args.action_index !== undefined && (typeof args.action_index !== 'number' || !Number.isInteger(args.action_index) || args.action_index < 0)) {
+          throw new Error('Invalid action_index: must be a non-negative integer');
+        }
+        if (args.title !== undefined && typeof args.title !== 'string') {
+          throw new Error('Invalid title: must be a string');
+        }
+        if (args.action_index === undefined && args.title === undefined) {
+          throw new Error('Either action_index or title is required');
+        }
+        if (args.apply !== undefined && typeof args.apply !== 'boolean') {
+          throw new Error('Invalid apply: must be a boolean');
+        }
+      }
       break;
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+/**
+ * Convert line and column arguments in the given base to the 0-based
+ * positions tools work with
+ */
+function toZeroBased(args: Record<string, unknown>, base: IndexBase): Record<string, unknown> {
+  if (base === 0) {
+    return args;
+  }
+
+  const converted = { ...args };
+  for (const key of ['line', 'column', 'end_line', 'end_column']) {
+    const value = converted[key];
+    if (typeof value === 'number') {
+      converted[key] = value - base;
+    }
+  }
+  return converted;
+}
+
+/**
+ * Build an LSP range from line/column and optional end_line/end_column arguments
+ */
+function toRange(args: any): Range {
+  const start = { line: args.line as number, character: args.column as number };
+  const end = {
+    line: (args.end_line as number | undefined) ?? start.line,
+    character: (args.end_column as number | undefined) ?? start.character
+  };
+  return { start, end };
+}
+
+/**
+ * Prepare a tool result for the caller: lines and columns in their index
+ * base, and file paths relative to the project root if RELATIVE_PATHS is set
+ */
+function presentResult(result: string, base: IndexBase): string {
+  const rebased = rebaseResult(result, base);
+  if (process.env.RELATIVE_PATHS !== 'true') {
+    return rebased;
   }
+  return relativizeResultPaths(rebased, getRegistry().getProjectRoot());
 }
 
 /**
- * Initialize clangd (lazy initialization on first query)
- * Uses a lock to prevent concurrent initialization attempts
+ * Create the language server registry on first use
  */
-async function ensureClangdInitialized(): Promise<void> {
+function getRegistry(): LanguageServerRegistry {
+  if (!registry) {
+    registry = new LanguageServerRegistry(resolve(process.env.PROJECT_ROOT || process.cwd()), {
+      defaultServer: process.env.LANGUAGE_SERVER || 'clangd',
+      enabledServers: process.env.LANGUAGE_SERVERS
+        ?.split(',').map(name => name.trim()).filter(name => name.length > 0),
+      watchFiles: process.env.WATCH_FILES !== 'false',
+      idleTimeoutMs: getIdleTimeout()
+    });
+  }
+  return registry;
+}
+
+/**
+ * Load the path policy on first use. Reading the compile database can take
+ * a while, so main() starts it before the first tool call.
+ */
+function getPathPolicy(): Promise<PathPolicy | undefined> {
+  if (pathPolicy === null) {
+    const projectRoot = getRegistry().getProjectRoot();
+    pathPolicy = createPathPolicy(projectRoot, findCompileCommands(projectRoot)).catch(error => {
+      // Try again on the next call instead of failing every call
+      pathPolicy = null;
+      throw error;
+    });
+  }
+  return pathPolicy;
+}
+
+/**
+ * Reject files outside the project root, the compile database's include
+ * directories and ALLOWED_PATHS before any server reads them
+ */
+async function checkFileAccess(filePath: string): Promise<void> {
+  (await getPathPolicy())?.check(filePath);
+}
+
+/**
+ * Get the language server responsible for a file, starting it on first use
+ */
+async function ensureServerInitialized(filePath: string): Promise<LanguageServerSession> {
   // Check if shutting down
   if (isShuttingDown) {
     throw new Error('Server is shutting down');
   }
 
-  // Fast path: already initialized
-  if (clangdManager && clangdManager.isReady()) {
-    return;
+  return getRegistry().getSessionForFile(filePath);
+}
+
+/**
+ * Get the servers to query for workspace-wide searches: every running
+ * server, or the default server if none has been started yet
+ */
+async function ensureSearchSessions(): Promise<LanguageServerSession[]> {
+  if (isShuttingDown) {
+    throw new Error('Server is shutting down');
   }
 
-  // If initialization is in progress, wait for it
-  if (initializationPromise) {
-    return initializationPromise;
+  return getRegistry().getSearchSessions();
+}
+
+/**
+ * Resolve a symbol argument, within file_path if given and otherwise
+ * across the workspace
+ */
+async function resolveSymbolArgument(args: any, signal?: AbortSignal): Promise<SymbolResolution> {
+  if (args.file_path !== undefined) {
+    const session = await ensureServerInitialized(args.file_path);
+    return resolveSymbolInDocument(
+      session.manager.getClient(),
+      session.fileTracker,
+      args.file_path,
+      args.symbol,
+      signal
+    );
   }
 
-  // Start initialization with lock
-  initializationPromise = (async () => {
-    try {
-      logger.info('Initializing clangd...');
+  const sessions = await ensureSearchSessions();
+  return resolveSymbolInWorkspace(sessions.map(session => session.manager.getClient()), args.symbol, signal);
+}
 
-      const config = detectConfiguration();
-      clangdManager = new ClangdManager(config);
-      await clangdManager.start();
+/**
+ * Run a tool call with its servers marked as in use, so that a memory
+ * restart does not land between the call's requests
+ */
+async function withToolCall<T>(sessions: LanguageServerSession[], run: () => Promise<T>): Promise<T> {
+  const releases = sessions.map(session => session.manager.beginToolCall());
+  try {
+    return await run();
+  } finally {
+    for (const release of releases) {
+      release();
+    }
+  }
+}
+
+/**
+ * Merge extra fields (e.g. how a symbol argument was resolved) into a tool's JSON result
+ */
+function annotateResult(result: string, notes: Record<string, unknown>): string {
+  if (Object.keys(notes).length === 0) {
+    return result;
+  }
 
-      fileTracker = new FileTracker(clangdManager.getClient());
+  try {
+    const parsed = JSON.parse(result);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return JSON.stringify({ ...parsed, ...notes }, null, 2);
+    }
+  } catch {
+    // Not JSON; return it unchanged
+  }
+  return result;
+}
 
-      // Initialize diagnostics cache
-      diagnosticsCache = new DiagnosticsCache(clangdManager.getClient());
+/**
+ * Note the indexing state on results served while a server is still
+ * building its background index, as they may be incomplete
+ */
+function indexingNotes(sessions: LanguageServerSession[]): Record<string, unknown> {
+  for (const session of sessions) {
+    const status = session.manager.getIndexStatus();
+    if (status.indexing) {
+      return { index: formatIndexStatus(session.name, status) };
+    }
+  }
+  return {};
+}
 
-      // Hook diagnostics cache to file tracker eviction
-      fileTracker.onFileClosed((uri) => {
-        if (diagnosticsCache) {
-          diagnosticsCache.clearForFile(uri);
+/**
+ * Report a server restart once, on the first result served after it, since
+ * the restarted server has lost unsaved state and may be re-indexing
+ */
+function restartNotes(sessions: LanguageServerSession[]): Record<string, unknown> {
+  for (const session of sessions) {
+    const restart = session.restart;
+    if (restart) {
+      session.restart = undefined;
+      return {
+        server_restarted: {
+          server: session.name,
+          reason: restart.reason,
+          restarted_at: new Date(restart.restartedAt).toISOString(),
+          reopened_files: restart.reopenedFiles.map(uriToPath)
         }
-      });
+      };
+    }
+  }
+  return {};
+}
 
-      logger.info('Clangd initialization complete');
-    } finally {
-      // Release lock after completion (success or failure)
-      initializationPromise = null;
+/**
+ * Report once that a server stopped for being idle had to be started again
+ * for this call, which explains a slow response and a cold cache
+ */
+function coldStartNotes(sessions: LanguageServerSession[]): Record<string, unknown> {
+  for (const session of sessions) {
+    const coldStart = session.coldStart;
+    if (coldStart) {
+      session.coldStart = undefined;
+      return {
+        cold_start: {
+          server: session.name,
+          stopped_at: new Date(coldStart.stoppedAt).toISOString(),
+          startup_ms: coldStart.startupMs,
+          message: `${session.name} was stopped for being idle and started again for this call`
+        }
+      };
     }
-  })();
+  }
+  return {};
+}
+
+/**
+ * Run a tool that operates on a file, using the session of the server
+ * responsible for it
+ */
+async function callTool(
+  name: string,
+  args: any,
+  session: LanguageServerSession,
+  base: IndexBase,
+  signal?: AbortSignal
+): Promise<string> {
+  const lspClient = session.manager.getClient();
+  const { fileTracker, diagnosticsCache } = session;
 
-  return initializationPromise;
+  switch (name) {
+    case 'find_definition':
+      return findDefinition(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        args.context_lines as number | undefined,
+        signal
+      );
+
+    case 'find_references':
+      return findReferences(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        args.include_declaration !== false,
+        args.context_lines as number | undefined,
+        signal
+      );
+
+    case 'get_hover':
+      return getHover(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        signal
+      );
+
+    case 'find_implementations':
+      return findImplementations(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        args.context_lines as number | undefined,
+        signal
+      );
+
+    case 'get_document_symbols':
+      return getDocumentSymbols(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        signal
+      );
+
+    case 'get_diagnostics':
+      return getDiagnostics(
+        diagnosticsCache,
+        fileTracker,
+        args.file_path as string,
+        args.force_refresh === true,
+        signal
+      );
+
+    case 'get_call_hierarchy':
+      return getCallHierarchy(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        args.context_lines as number | undefined,
+        (args.format as OutputFormat | undefined) ?? 'json',
+        base,
+        { itemIndex: args.item_index as number | undefined, signature: args.signature as string | undefined },
+        signal
+      );
+
+    case 'get_call_graph':
+      return getCallGraph(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        (args.direction as CallGraphDirection | undefined) ?? 'incoming',
+        {
+          maxDepth: (args.max_depth as number | undefined) ?? 3,
+          maxNodes: (args.max_nodes as number | undefined) ?? 100
+        },
+        (args.format as OutputFormat | undefined) ?? 'json',
+        base,
+        { itemIndex: args.item_index as number | undefined, signature: args.signature as string | undefined },
+        signal
+      );
+
+    case 'get_type_hierarchy':
+      return getTypeHierarchy(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        args.context_lines as number | undefined,
+        (args.format as OutputFormat | undefined) ?? 'json',
+        base,
+        { itemIndex: args.item_index as number | undefined, signature: args.signature as string | undefined },
+        signal
+      );
+
+    case 'get_type_tree':
+      return getTypeTree(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        (args.direction as TypeTreeDirection | undefined) ?? 'both',
+        {
+          maxDepth: (args.max_depth as number | undefined) ?? 5,
+          maxNodes: (args.max_nodes as number | undefined) ?? 200
+        },
+        (args.format as OutputFormat | undefined) ?? 'json',
+        base,
+        { itemIndex: args.item_index as number | undefined, signature: args.signature as string | undefined },
+        signal
+      );
+
+    case 'rename_symbol':
+      return renameSymbol(
+        lspClient,
+        fileTracker,
+        args.file_path as string,
+        args.line as number,
+        args.column as number,
+        args.new_name as string,
+        args.apply === true,
+        signal,
+        checkFileAccess
+      );
+
+    case 'get_code_actions':
+      return getCodeActions(
+        lspClient,
+        fileTracker,
+        diagnosticsCache,
+        args.file_path as string,
+        toRange(args),
+        args.include_diagnostics !== false,
+        signal
+      );
+
+    case 'apply_code_action':
+      return applyCodeAction(
+        lspClient,
+        fileTracker,
+        diagnosticsCache,
+        args.file_path as string,
+        toRange(args),
+        {
+          index: args.action_index as number | undefined,
+          title: args.title as string | undefined
+        },
+        args.apply === true,
+        args.include_diagnostics !== false,
+        signal,
+        checkFileAccess
+      );
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
 }
 
 /**
  * Main server setup
  */
 async function main() {
-  logger.info('Starting clangd MCP server');
+  logger.info('Starting language server MCP server');
 
   const server = new Server(
     {
-      name: 'clangd-mcp-server',
+      name: 'language-server-mcp',
       version: '0.1.0',
     },
     {
@@ -184,18 +734,38 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
               },
               line: {
                 type: 'number',
-                description: 'Line number (0-indexed)'
+                description: 'Line number (0-indexed unless index_base is 1)'
               },
               column: {
                 type: 'number',
-                description: 'Column number (0-indexed)'
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              context_lines: {
+                type: 'number',
+                description: `Include this many lines of source around each location, at most ${MAX_CONTEXT_LINES} (default: no source)`
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
-            required: ['file_path', 'line', 'column']
+            required: []
           }
         },
         {
@@ -206,23 +776,43 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
               },
               line: {
                 type: 'number',
-                description: 'Line number (0-indexed)'
+                description: 'Line number (0-indexed unless index_base is 1)'
               },
               column: {
                 type: 'number',
-                description: 'Column number (0-indexed)'
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
               },
               include_declaration: {
                 type: 'boolean',
                 description: 'Include the declaration in the results (default: true)',
                 default: true
+              },
+              context_lines: {
+                type: 'number',
+                description: `Include this many lines of source around each location, at most ${MAX_CONTEXT_LINES} (default: no source)`
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
-            required: ['file_path', 'line', 'column']
+            required: []
           }
         },
         {
@@ -233,18 +823,34 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
               },
               line: {
                 type: 'number',
-                description: 'Line number (0-indexed)'
+                description: 'Line number (0-indexed unless index_base is 1)'
               },
               column: {
                 type: 'number',
-                description: 'Column number (0-indexed)'
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
-            required: ['file_path', 'line', 'column']
+            required: []
           }
         },
         {
@@ -261,6 +867,14 @@ async function main() {
                 type: 'number',
                 description: 'Maximum number of results to return (default: 100)',
                 default: 100
+              },
+              context_lines: {
+                type: 'number',
+                description: `Include this many lines of source around each location, at most ${MAX_CONTEXT_LINES} (default: no source)`
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
             required: ['query']
@@ -274,18 +888,38 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
               },
               line: {
                 type: 'number',
-                description: 'Line number (0-indexed)'
+                description: 'Line number (0-indexed unless index_base is 1)'
               },
               column: {
                 type: 'number',
-                description: 'Column number (0-indexed)'
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              context_lines: {
+                type: 'number',
+                description: `Include this many lines of source around each location, at most ${MAX_CONTEXT_LINES} (default: no source)`
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
-            required: ['file_path', 'line', 'column']
+            required: []
           }
         },
         {
@@ -296,7 +930,11 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root'
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
             required: ['file_path']
@@ -310,12 +948,16 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root'
               },
               force_refresh: {
                 type: 'boolean',
                 description: 'Force re-parsing of the file to get latest diagnostics (default: false)',
                 default: false
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
             required: ['file_path']
@@ -329,18 +971,120 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
               },
               line: {
                 type: 'number',
-                description: 'Line number (0-indexed)'
+                description: 'Line number (0-indexed unless index_base is 1)'
               },
               column: {
                 type: 'number',
-                description: 'Column number (0-indexed)'
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              context_lines: {
+                type: 'number',
+                description: `Include this many lines of source around each location, at most ${MAX_CONTEXT_LINES} (default: no source)`
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'json for structured results, or mermaid / dot to render the result as a Mermaid graph or Graphviz digraph (default: json)',
+                default: 'json'
+              },
+              item_index: {
+                type: 'number',
+                description: 'When the position has several hierarchy items (overloads, templates), query only this one (0-based, as listed in the result); by default all are queried'
+              },
+              signature: {
+                type: 'string',
+                description: 'When the position has several hierarchy items, query only those whose detail contains this text (whitespace is ignored)'
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
-            required: ['file_path', 'line', 'column']
+            required: []
+          }
+        },
+        {
+          name: 'get_call_graph',
+          description: 'Walk callers (or callees) transitively from a function and return the call graph as nodes and edges, e.g. to find the entry points that eventually reach it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
+              },
+              line: {
+                type: 'number',
+                description: 'Line number (0-indexed unless index_base is 1)'
+              },
+              column: {
+                type: 'number',
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              direction: {
+                type: 'string',
+                enum: ['incoming', 'outgoing'],
+                description: 'Follow callers (incoming) or callees (outgoing) (default: incoming)',
+                default: 'incoming'
+              },
+              max_depth: {
+                type: 'number',
+                description: 'Maximum number of call levels to follow, 1-10 (default: 3)',
+                default: 3
+              },
+              max_nodes: {
+                type: 'number',
+                description: 'Stop after this many functions, 1-1000 (default: 100)',
+                default: 100
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'json for structured results, or mermaid / dot to render the result as a Mermaid graph or Graphviz digraph (default: json)',
+                default: 'json'
+              },
+              item_index: {
+                type: 'number',
+                description: 'When the position has several hierarchy items (overloads, templates), query only this one (0-based, as listed in the result); by default all are queried'
+              },
+              signature: {
+                type: 'string',
+                description: 'When the position has several hierarchy items, query only those whose detail contains this text (whitespace is ignored)'
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
+              }
+            },
+            required: []
           }
         },
         {
@@ -351,18 +1095,298 @@ async function main() {
             properties: {
               file_path: {
                 type: 'string',
-                description: 'Absolute path to the source file'
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
+              },
+              line: {
+                type: 'number',
+                description: 'Line number (0-indexed unless index_base is 1)'
+              },
+              column: {
+                type: 'number',
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              context_lines: {
+                type: 'number',
+                description: `Include this many lines of source around each location, at most ${MAX_CONTEXT_LINES} (default: no source)`
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'json for structured results, or mermaid / dot to render the result as a Mermaid graph or Graphviz digraph (default: json)',
+                default: 'json'
+              },
+              item_index: {
+                type: 'number',
+                description: 'When the position has several hierarchy items (overloads, templates), query only this one (0-based, as listed in the result); by default all are queried'
+              },
+              signature: {
+                type: 'string',
+                description: 'When the position has several hierarchy items, query only those whose detail contains this text (whitespace is ignored)'
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
+              }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'get_type_tree',
+          description: 'Get the full inheritance tree of a class: base classes up to the roots and derived classes down to the leaves, as a nested tree with diamond inheritance marked',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
+              },
+              line: {
+                type: 'number',
+                description: 'Line number (0-indexed unless index_base is 1)'
+              },
+              column: {
+                type: 'number',
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              direction: {
+                type: 'string',
+                enum: ['supertypes', 'subtypes', 'both'],
+                description: 'Expand base classes (supertypes), derived classes (subtypes) or both (default: both)',
+                default: 'both'
+              },
+              max_depth: {
+                type: 'number',
+                description: 'Maximum number of inheritance levels to follow in each direction, 1-10 (default: 5)',
+                default: 5
+              },
+              max_nodes: {
+                type: 'number',
+                description: 'Stop after this many types, 1-1000 (default: 200)',
+                default: 200
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'mermaid', 'dot'],
+                description: 'json for structured results, or mermaid / dot to render the result as a Mermaid graph or Graphviz digraph (default: json)',
+                default: 'json'
+              },
+              item_index: {
+                type: 'number',
+                description: 'When the position has several hierarchy items (overloads, templates), query only this one (0-based, as listed in the result); by default all are queried'
+              },
+              signature: {
+                type: 'string',
+                description: 'When the position has several hierarchy items, query only those whose detail contains this text (whitespace is ignored)'
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
+              }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'rename_symbol',
+          description: 'Rename a symbol across the workspace. Returns a per-file preview of the edits; set apply to write them to disk',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
+              },
+              line: {
+                type: 'number',
+                description: 'Line number (0-indexed unless index_base is 1)'
+              },
+              column: {
+                type: 'number',
+                description: 'Column number (0-indexed unless index_base is 1)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) to use instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              text: {
+                type: 'string',
+                description: 'Text expected at the position (e.g. the identifier); the nearest occurrence on the line is used'
+              },
+              search_radius: {
+                type: 'number',
+                description: 'How many columns to search for an identifier (or text) when the column misses it (default: 8)'
+              },
+              new_name: {
+                type: 'string',
+                description: 'New name for the symbol'
+              },
+              apply: {
+                type: 'boolean',
+                description: 'Write the edits to disk instead of only previewing them (default: false)',
+                default: false
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
+              }
+            },
+            required: ['new_name']
+          }
+        },
+        {
+          name: 'get_code_actions',
+          description: 'List the quick fixes and refactorings (e.g. extract function, define outline, expand auto) available for a range',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
               },
               line: {
                 type: 'number',
-                description: 'Line number (0-indexed)'
+                description: 'Start line of the range (0-indexed unless index_base is 1)'
               },
               column: {
                 type: 'number',
-                description: 'Column number (0-indexed)'
+                description: 'Start column of the range (0-indexed unless index_base is 1)'
+              },
+              end_line: {
+                type: 'number',
+                description: 'End line of the range (default: line)'
+              },
+              end_column: {
+                type: 'number',
+                description: 'End column of the range (default: column)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) whose position starts the range, instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              include_diagnostics: {
+                type: 'boolean',
+                description: 'Send the diagnostics overlapping the range so their fix-its are offered (default: true)',
+                default: true
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
               }
             },
-            required: ['file_path', 'line', 'column']
+            required: []
+          }
+        },
+        {
+          name: 'apply_code_action',
+          description: 'Resolve a code action from get_code_actions and return the resulting edits; set apply to write them to disk',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              file_path: {
+                type: 'string',
+                description: 'Path to the source file, absolute or relative to the project root (optional when symbol is given)'
+              },
+              line: {
+                type: 'number',
+                description: 'Start line of the range (0-indexed unless index_base is 1)'
+              },
+              column: {
+                type: 'number',
+                description: 'Start column of the range (0-indexed unless index_base is 1)'
+              },
+              end_line: {
+                type: 'number',
+                description: 'End line of the range (default: line)'
+              },
+              end_column: {
+                type: 'number',
+                description: 'End column of the range (default: column)'
+              },
+              symbol: {
+                type: 'string',
+                description: 'Symbol name (e.g. net::HttpRequest::Start) whose position starts the range, instead of line and column; searched in file_path if given, otherwise in the workspace'
+              },
+              include_diagnostics: {
+                type: 'boolean',
+                description: 'Send the diagnostics overlapping the range so their fix-its are offered (default: true)',
+                default: true
+              },
+              action_index: {
+                type: 'number',
+                description: 'Index of the action as listed by get_code_actions'
+              },
+              title: {
+                type: 'string',
+                description: 'Title of the action (alternative to action_index)'
+              },
+              apply: {
+                type: 'boolean',
+                description: 'Write the edits to disk instead of only previewing them (default: false)',
+                default: false
+              },
+              index_base: {
+                type: 'number',
+                description: 'Number lines and columns in arguments and results from 0 or 1 (default: INDEX_BASE, or 0)'
+              }
+            },
+            required: []
+          }
+        },
+        {
+          name: 'index_status',
+          description: 'Report whether the language servers are still building their background index (percentage and message). References and workspace symbol results may be incomplete until it finishes',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          }
+        },
+        {
+          name: 'server_status',
+          description: 'Report the state of the language servers started so far: process ID, uptime, open files, memory use (resident size and clangd\'s own accounting by component) against the memory limit, and crashes',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          }
+        },
+        {
+          name: 'restart_clangd',
+          description: 'Restart a language server, e.g. one that stopped being restarted after crashing repeatedly. Recently used files are reopened; the response lists its recent crashes with exit codes, signals and stderr',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              server: {
+                type: 'string',
+                description: 'Language server to restart (default: the default server, usually clangd)'
+              }
+            },
+            required: []
           }
         }
       ]
@@ -370,9 +1394,37 @@ async function main() {
   });
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  // The SDK aborts extra.signal when the client cancels the call; it is
+  // passed down to every LSP request the tool makes
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     try {
-      const { name, arguments: args } = request.params;
+      const { name } = request.params;
+      let args = request.params.arguments;
+
+      // Takes no arguments, and reports on running servers without starting one
+      if (name === 'index_status') {
+        return {
+          content: [{ type: 'text', text: getIndexStatus(getRegistry().getRunningSessions()) }]
+        };
+      }
+
+      // Reports on servers that are down too, and starts none
+      if (name === 'server_status') {
+        return {
+          content: [{ type: 'text', text: await getServerStatus(getRegistry().getSessions()) }]
+        };
+      }
+
+      // Recovers a server that was given up on, so it must not need one running
+      if (name === 'restart_clangd') {
+        const server = args?.server ?? getRegistry().getDefaultServerName();
+        if (typeof server !== 'string') {
+          throw new Error('Invalid server: must be a string');
+        }
+        return {
+          content: [{ type: 'text', text: await restartClangd(getRegistry(), server) }]
+        };
+      }
 
       if (!args) {
         throw new Error('Missing arguments for tool call');
@@ -381,142 +1433,137 @@ async function main() {
       // Validate arguments before initialization
       validateToolArgs(name, args);
 
-      // Initialize clangd on first tool call
-      await ensureClangdInitialized();
+      // Tools work with 0-based lines and columns; results are converted back
+      const base: IndexBase = (args.index_base as IndexBase | undefined) ?? getIndexBase();
+      args = toZeroBased(args, base);
 
-      if (!clangdManager || !fileTracker) {
-        throw new Error('Clangd not initialized');
+      // Relative paths are taken from the project root
+      if (typeof args.file_path === 'string') {
+        args = { ...args, file_path: resolveProjectPath(getRegistry().getProjectRoot(), args.file_path) };
+        await checkFileAccess(args.file_path as string);
       }
 
-      switch (name) {
-        case 'find_definition': {
-          const result = await findDefinition(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string,
-            args.line as number,
-            args.column as number
-          );
-          return {
-            content: [{ type: 'text', text: result }]
-          };
-        }
-
-        case 'find_references': {
-          const result = await findReferences(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string,
-            args.line as number,
-            args.column as number,
-            args.include_declaration !== false
-          );
-          return {
-            content: [{ type: 'text', text: result }]
-          };
-        }
-
-        case 'get_hover': {
-          const result = await getHover(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string,
-            args.line as number,
-            args.column as number
-          );
-          return {
-            content: [{ type: 'text', text: result }]
-          };
-        }
-
-        case 'workspace_symbol_search': {
-          const result = await workspaceSymbolSearch(
-            clangdManager.getClient(),
-            args.query as string,
-            (args.limit as number) || 100
-          );
-          return {
-            content: [{ type: 'text', text: result }]
-          };
-        }
-
-        case 'find_implementations': {
-          const result = await findImplementations(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string,
-            args.line as number,
-            args.column as number
-          );
-          return {
-            content: [{ type: 'text', text: result }]
-          };
-        }
+      // Workspace-wide search fans out to all running servers
+      if (name === 'workspace_symbol_search') {
+        const sessions = await ensureSearchSessions();
+        const result = await withToolCall(sessions, () => workspaceSymbolSearch(
+          sessions.map(session => session.manager.getClient()),
+          args!.query as string,
+          (args!.limit as number) || 100,
+          args!.context_lines as number | undefined,
+          extra.signal
+        ));
+        return {
+          content: [{
+            type: 'text',
+            text: presentResult(annotateResult(result, {
+              ...indexingNotes(sessions),
+              ...restartNotes(sessions),
+              ...coldStartNotes(sessions)
+            }), base)
+          }]
+        };
+      }
 
-        case 'get_document_symbols': {
-          const result = await getDocumentSymbols(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string
-          );
+      // Replace a symbol argument with the position it resolves to, or
+      // check the given position against the source
+      const notes: Record<string, unknown> = {};
+      if (args.symbol !== undefined && positionalTools.has(name)) {
+        const resolution = await resolveSymbolArgument(args, extra.signal);
+        if (!resolution.resolved) {
           return {
-            content: [{ type: 'text', text: result }]
+            content: [{
+              type: 'text',
+              text: presentResult(JSON.stringify({
+                found: false,
+                ambiguous: resolution.candidates.length > 1,
+                message: resolution.message,
+                candidates: resolution.candidates.map(formatSymbolCandidate)
+              }, null, 2), base)
+            }]
           };
         }
 
-        case 'get_diagnostics': {
-          if (!diagnosticsCache) {
-            throw new Error('Diagnostics cache not initialized');
+        const resolved = resolution.resolved;
+        args = {
+          ...args,
+          file_path: uriToPath(resolved.uri),
+          line: resolved.position.line,
+          column: resolved.position.character
+        };
+        // The symbol may be declared in a file the caller could not name
+        await checkFileAccess(args.file_path as string);
+        notes.resolved_symbol = formatSymbolCandidate(resolved);
+      } else if (positionalTools.has(name) && !rangeTools.has(name)) {
+        // Snap a column that misses the identifier
+        const resolution = await resolvePosition(
+          args.file_path as string,
+          args.line as number,
+          args.column as number,
+          {
+            radius: (args.search_radius as number | undefined) ?? getDefaultSearchRadius(),
+            text: args.text as string | undefined,
+            // A rename written to disk is not aimed at a guessed identifier
+            exact: name === 'rename_symbol' && args.apply === true,
+            indexBase: base
           }
-          const result = await getDiagnostics(
-            diagnosticsCache,
-            fileTracker,
-            args.file_path as string,
-            args.force_refresh === true
-          );
-          return {
-            content: [{ type: 'text', text: result }]
-          };
-        }
-
-        case 'get_call_hierarchy': {
-          const result = await getCallHierarchy(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string,
-            args.line as number,
-            args.column as number
-          );
+        );
+        if (!resolution.resolved) {
           return {
-            content: [{ type: 'text', text: result }]
+            content: [{
+              type: 'text',
+              text: presentResult(JSON.stringify({
+                found: false,
+                message: resolution.message,
+                requested: { file: args.file_path, line: args.line, column: args.column }
+              }, null, 2), base)
+            }]
           };
         }
 
-        case 'get_type_hierarchy': {
-          const result = await getTypeHierarchy(
-            clangdManager.getClient(),
-            fileTracker,
-            args.file_path as string,
-            args.line as number,
-            args.column as number
-          );
-          return {
-            content: [{ type: 'text', text: result }]
+        const { line, column, token, adjusted } = resolution.resolved;
+        if (adjusted) {
+          notes.queried_position = {
+            line,
+            column,
+            token,
+            requested: { line: args.line, column: args.column }
           };
+          args = { ...args, line, column };
         }
-
-        default:
-          throw new Error(`Unknown tool: ${name}`);
       }
+
+      // Route everything else to the server responsible for the file,
+      // starting it on first use
+      const session = await ensureServerInitialized(args.file_path as string);
+      const result = await withToolCall([session], () => callTool(name, args!, session, base, extra.signal));
+      return {
+        content: [{
+          type: 'text',
+          text: presentResult(annotateResult(result, {
+            ...notes,
+            ...indexingNotes([session]),
+            ...restartNotes([session]),
+            ...coldStartNotes([session])
+          }), base)
+        }]
+      };
     } catch (error) {
-      logger.error('Tool call failed:', error);
+      if (error instanceof CancelledError) {
+        // The client is no longer waiting for this result
+        logger.info(`Tool call ${request.params.name} cancelled`);
+      } else {
+        logger.error('Tool call failed:', error);
+      }
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
               error: true,
-              message: error instanceof Error ? error.message : String(error)
+              message: error instanceof Error ? error.message : String(error),
+              // Why the server is down and how to bring it back
+              ...(error instanceof ServerDownError ? error.details : {})
             })
           }
         ],
@@ -536,11 +1583,8 @@ async function main() {
     logger.info(`Received ${signal}, shutting down...`);
 
     try {
-      if (fileTracker) {
-        fileTracker.closeAll();
-      }
-      if (clangdManager) {
-        await clangdManager.shutdown();
+      if (registry) {
+        await registry.shutdown();
       }
       process.exit(0);
     } catch (error) {
@@ -556,7 +1600,12 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
-  logger.info('Clangd MCP server running on stdio');
+  logger.info('Language server MCP server running on stdio');
+
+  // Read the compile database's include directories off the first call's path
+  getPathPolicy().catch(error => {
+    logger.warn('Could not load the path policy:', error);
+  });
 }
 
 // Run the server
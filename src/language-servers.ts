@@ -0,0 +1,192 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve, extname } from 'node:path';
+import { logger } from './utils/logger.js';
+
+/**
+ * Describes how to run a language server and which files it handles
+ */
+export interface LanguageServerProfile {
+  name: string;
+  command: string;
+  args: string[];
+  /** File extension (without the dot, lowercase) -> LSP language ID */
+  extensions: Record<string, string>;
+  /** Language ID for files whose extension is not listed */
+  defaultLanguageId?: string;
+  initializationOptions?: any;
+}
+
+/**
+ * Built-in profiles for commonly used language servers
+ */
+export const builtinProfiles: Record<string, LanguageServerProfile> = {
+  clangd: {
+    name: 'clangd',
+    command: 'clangd',
+    args: [],
+    extensions: {
+      'c': 'c',
+      'cc': 'cpp',
+      'cpp': 'cpp',
+      'cxx': 'cpp',
+      'c++': 'cpp',
+      // Headers are typically C++ in modern codebases
+      'h': 'cpp',
+      'hh': 'cpp',
+      'hpp': 'cpp',
+      'hxx': 'cpp',
+      'h++': 'cpp',
+      'inc': 'cpp',
+      'ipp': 'cpp',
+      'm': 'objective-c',
+      'mm': 'objective-cpp'
+    },
+    defaultLanguageId: 'cpp'
+  },
+  'rust-analyzer': {
+    name: 'rust-analyzer',
+    command: 'rust-analyzer',
+    args: [],
+    extensions: { 'rs': 'rust' }
+  },
+  pyright: {
+    name: 'pyright',
+    command: 'pyright-langserver',
+    args: ['--stdio'],
+    extensions: { 'py': 'python', 'pyi': 'python' }
+  },
+  gopls: {
+    name: 'gopls',
+    command: 'gopls',
+    args: [],
+    extensions: { 'go': 'go' }
+  },
+  'typescript-language-server': {
+    name: 'typescript-language-server',
+    command: 'typescript-language-server',
+    args: ['--stdio'],
+    extensions: {
+      'ts': 'typescript',
+      'mts': 'typescript',
+      'cts': 'typescript',
+      'tsx': 'typescriptreact',
+      'js': 'javascript',
+      'mjs': 'javascript',
+      'cjs': 'javascript',
+      'jsx': 'javascriptreact'
+    }
+  }
+};
+
+/**
+ * Conventional name of a project's config file. It is only read when
+ * LANGUAGE_SERVERS_CONFIG names it: its commands are run, so a repository
+ * must not be able to pick them just by being opened.
+ */
+const projectConfigFile = '.language-servers.json';
+
+/**
+ * Validate one entry of the config file and merge it over the built-in
+ * profile of the same name, if any
+ */
+function parseProfile(
+  name: string,
+  entry: any,
+  base?: LanguageServerProfile
+): LanguageServerProfile {
+  if (!entry || typeof entry !== 'object') {
+    throw new Error(`server '${name}' must be an object`);
+  }
+
+  const command = entry.command ?? base?.command;
+  if (typeof command !== 'string' || command.length === 0) {
+    throw new Error(`server '${name}' needs a 'command' string`);
+  }
+
+  const args = entry.args ?? base?.args ?? [];
+  if (!Array.isArray(args) || !args.every(arg => typeof arg === 'string')) {
+    throw new Error(`server '${name}': 'args' must be an array of strings`);
+  }
+
+  const extensions = entry.extensions ?? base?.extensions;
+  if (!extensions || typeof extensions !== 'object' ||
+      !Object.values(extensions).every(id => typeof id === 'string')) {
+    throw new Error(`server '${name}' needs an 'extensions' object mapping file extensions to language IDs`);
+  }
+
+  return {
+    name,
+    command,
+    args,
+    extensions: Object.fromEntries(
+      Object.entries(extensions as Record<string, string>)
+        .map(([ext, id]) => [ext.replace(/^\./, '').toLowerCase(), id])
+    ),
+    defaultLanguageId: entry.defaultLanguageId ?? base?.defaultLanguageId,
+    initializationOptions: entry.initializationOptions ?? base?.initializationOptions
+  };
+}
+
+/**
+ * Load the built-in profiles plus any defined in the config file.
+ *
+ * The config file is only read when LANGUAGE_SERVERS_CONFIG names it
+ * (relative to the project root) and has the form:
+ *   { "servers": { "<name>": { "command", "args", "extensions", "initializationOptions" } } }
+ * Entries named after a built-in profile override its fields.
+ */
+export function loadLanguageServerProfiles(projectRoot: string): Record<string, LanguageServerProfile> {
+  const profiles: Record<string, LanguageServerProfile> = { ...builtinProfiles };
+
+  if (!process.env.LANGUAGE_SERVERS_CONFIG) {
+    if (existsSync(join(projectRoot, projectConfigFile))) {
+      logger.warn(
+        `Ignoring ${projectConfigFile} in the project root; set LANGUAGE_SERVERS_CONFIG=${projectConfigFile} to use it`
+      );
+    }
+    return profiles;
+  }
+
+  const configPath = resolve(projectRoot, process.env.LANGUAGE_SERVERS_CONFIG);
+  if (!existsSync(configPath)) {
+    logger.warn('Language server config not found:', configPath);
+    return profiles;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    logger.error(`Failed to read language server config ${configPath}:`, error);
+    return profiles;
+  }
+
+  const servers = config?.servers;
+  if (!servers || typeof servers !== 'object') {
+    logger.error(`Language server config ${configPath} has no 'servers' object`);
+    return profiles;
+  }
+
+  for (const [name, entry] of Object.entries(servers)) {
+    try {
+      profiles[name] = parseProfile(name, entry, builtinProfiles[name]);
+      logger.info(`Loaded language server profile '${name}' from ${configPath}`);
+    } catch (error) {
+      logger.error(`Invalid language server config in ${configPath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Determine the LSP language ID for a file handled by the given server
+ */
+export function getLanguageId(profile: LanguageServerProfile, filePath: string): string {
+  const ext = extname(filePath).slice(1).toLowerCase();
+  return profile.extensions[ext] ?? profile.defaultLanguageId ?? ext;
+}
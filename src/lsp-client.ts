@@ -4,7 +4,8 @@
 
 import { Readable, Writable } from 'node:stream';
 import { logger } from './utils/logger.js';
-import { LSPError, withTimeout } from './utils/errors.js';
+import { CancelledError, LSPError, TimeoutError, withTimeout } from './utils/errors.js';
+import { DEFAULT_POSITION_ENCODING, PositionEncoding } from './utils/position-encoding.js';
 
 interface JsonRpcMessage {
   jsonrpc: '2.0';
@@ -36,14 +37,55 @@ type PendingRequest = {
   reject: (error: any) => void;
 };
 
+type RequestHandler = (params: any) => any | Promise<any>;
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  /** Aborting cancels the request on the server and rejects with a CancelledError */
+  signal?: AbortSignal;
+}
+
+/**
+ * Replies to the server-initiated requests servers commonly send, so they
+ * never wait on us. Tools override these with onRequest while they need to.
+ */
+const defaultRequestHandlers: Record<string, RequestHandler> = {
+  // Progress is reported through $/progress notifications either way
+  'window/workDoneProgress/create': () => null,
+  // No client-side settings: one null per requested section
+  'workspace/configuration': (params: any) => (params?.items ?? []).map(() => null),
+  'client/registerCapability': () => null,
+  'client/unregisterCapability': () => null,
+  // No action chosen
+  'window/showMessageRequest': () => null,
+  // Edits are only written by tools that were asked to apply them
+  'workspace/applyEdit': () => ({
+    applied: false,
+    failureReason: 'Edits are not applied outside of rename_symbol and apply_code_action'
+  })
+};
+
 export class LSPClient {
   private stdin: Writable;
   private stdout: Readable;
   private nextId: number = 1;
   private pendingRequests: Map<number | string, PendingRequest> = new Map();
-  private buffer: string = '';
+  // Requests we gave up on; the server may still answer them
+  private cancelledRequests: Set<number | string> = new Set();
+  // Unparsed stdout data, kept as received and only joined once a whole
+  // message is available
+  private chunks: Buffer[] = [];
+  private bufferedBytes: number = 0;
+  // Header of the message whose content is still arriving
+  private pendingHeader?: { headerBytes: number; contentLength: number };
   private notificationHandlers: Map<string, (params: any) => void> = new Map();
+  private requestHandlers: Map<string, RequestHandler> = new Map();
   private readonly maxMessageSize: number = 100 * 1024 * 1024; // 100 MB limit
+  // Encoding of the columns in positions exchanged with the server
+  private positionEncoding: PositionEncoding = DEFAULT_POSITION_ENCODING;
+  // Requests in a row that timed out; any response resets it
+  private consecutiveTimeouts: number = 0;
+  private timeoutHandler?: (method: string, consecutiveTimeouts: number) => void;
   private dataHandler?: (chunk: Buffer) => void;
   private errorHandler?: (error: Error) => void;
   private endHandler?: () => void;
@@ -51,12 +93,16 @@ export class LSPClient {
   constructor(stdin: Writable, stdout: Readable) {
     this.stdin = stdin;
     this.stdout = stdout;
+    for (const [method, handler] of Object.entries(defaultRequestHandlers)) {
+      this.requestHandlers.set(method, handler);
+    }
     this.setupStreamHandlers();
   }
 
   private setupStreamHandlers(): void {
     this.dataHandler = (chunk: Buffer) => {
-      this.buffer += chunk.toString('utf-8');
+      this.chunks.push(chunk);
+      this.bufferedBytes += chunk.length;
       this.processBuffer();
     };
 
@@ -66,11 +112,8 @@ export class LSPClient {
 
     this.endHandler = () => {
       logger.info('LSP stdout ended');
-      // Reject all pending requests
-      for (const [id, pending] of this.pendingRequests.entries()) {
-        pending.reject(new Error('LSP connection closed'));
-      }
-      this.pendingRequests.clear();
+      this.failPendingRequests(new Error('LSP connection closed'));
+      this.cancelledRequests.clear();
     };
 
     this.stdout.on('data', this.dataHandler);
@@ -78,51 +121,91 @@ export class LSPClient {
     this.stdout.on('end', this.endHandler);
   }
 
-  private processBuffer(): void {
-    while (true) {
-      // Look for Content-Length header
-      const headerMatch = this.buffer.match(/Content-Length: (\d+)\r\n/);
-      if (!headerMatch) {
-        break;
-      }
+  /**
+   * Join the buffered chunks into one Buffer (a no-op once joined)
+   */
+  private joinChunks(): Buffer {
+    if (this.chunks.length !== 1) {
+      this.chunks = [Buffer.concat(this.chunks, this.bufferedBytes)];
+    }
+    return this.chunks[0];
+  }
 
-      const contentLength = parseInt(headerMatch[1], 10);
+  /**
+   * Drop bytes that have been parsed from the front of the buffer
+   */
+  private consume(bytes: number): void {
+    const data = this.joinChunks().subarray(bytes);
+    this.chunks = data.length > 0 ? [data] : [];
+    this.bufferedBytes = data.length;
+  }
 
-      // Check for malformed or malicious message size
-      if (contentLength > this.maxMessageSize) {
-        logger.error(`Message size ${contentLength} exceeds maximum ${this.maxMessageSize}, dropping connection`);
-        this.close();
-        return;
+  /**
+   * Parse a header block into lowercased field names and values
+   */
+  private parseHeaders(text: string): Map<string, string> {
+    const headers = new Map<string, string>();
+    for (const line of text.split('\r\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
       }
+    }
+    return headers;
+  }
 
-      if (contentLength < 0 || !Number.isFinite(contentLength)) {
-        logger.error(`Invalid Content-Length: ${contentLength}, skipping message`);
-        // Skip to next potential message by removing the malformed header
-        const headerEnd = this.buffer.indexOf('\r\n\r\n');
-        if (headerEnd !== -1) {
-          this.buffer = this.buffer.substring(headerEnd + 4);
-        } else {
-          this.buffer = '';
+  /**
+   * Parse as many complete messages as the buffered data holds. Lengths are
+   * in bytes, so content is only decoded once all of its bytes are present.
+   */
+  private processBuffer(): void {
+    while (this.bufferedBytes > 0) {
+      if (!this.pendingHeader) {
+        const data = this.joinChunks();
+        const headerEnd = data.indexOf('\r\n\r\n');
+        if (headerEnd === -1) {
+          break;
         }
-        continue;
-      }
 
-      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+        const headers = this.parseHeaders(data.toString('ascii', 0, headerEnd));
+        const headerBytes = headerEnd + 4;
 
-      if (headerEnd === -1) {
-        break;
-      }
+        const lengthValue = headers.get('content-length');
+        if (lengthValue === undefined || !/^\d+$/.test(lengthValue)) {
+          logger.error(`Invalid Content-Length: ${lengthValue}, skipping message`);
+          // Skip to next potential message by removing the malformed header
+          this.consume(headerBytes);
+          continue;
+        }
+
+        const contentLength = parseInt(lengthValue, 10);
+
+        // Check for malformed or malicious message size
+        if (contentLength > this.maxMessageSize) {
+          logger.error(`Message size ${contentLength} exceeds maximum ${this.maxMessageSize}, dropping connection`);
+          this.close();
+          return;
+        }
+
+        // LSP content is always UTF-8; 'utf8' is accepted for compatibility
+        const contentType = headers.get('content-type');
+        const charset = contentType?.match(/charset=([^;\s]+)/i)?.[1].toLowerCase();
+        if (charset && charset !== 'utf-8' && charset !== 'utf8') {
+          logger.warn(`Unsupported charset '${charset}' in Content-Type, decoding as UTF-8`);
+        }
 
-      const messageStart = headerEnd + 4;
-      const messageEnd = messageStart + contentLength;
+        this.pendingHeader = { headerBytes, contentLength };
+      }
 
-      if (this.buffer.length < messageEnd) {
+      const { headerBytes, contentLength } = this.pendingHeader;
+      if (this.bufferedBytes < headerBytes + contentLength) {
         // Not enough data yet
         break;
       }
 
-      const messageText = this.buffer.substring(messageStart, messageEnd);
-      this.buffer = this.buffer.substring(messageEnd);
+      const messageText = this.joinChunks().toString('utf-8', headerBytes, headerBytes + contentLength);
+      this.consume(headerBytes + contentLength);
+      this.pendingHeader = undefined;
 
       try {
         const message = JSON.parse(messageText);
@@ -140,14 +223,24 @@ export class LSPClient {
     } else if ('method' in message && !('id' in message)) {
       // Notification
       this.handleNotification(message as JsonRpcNotification);
+    } else if ('method' in message && 'id' in message) {
+      // Server-initiated request
+      this.handleRequest(message as JsonRpcRequest);
     } else {
       logger.warn('Unknown message type:', message);
     }
   }
 
   private handleResponse(response: JsonRpcResponse): void {
+    // Even a late answer shows the server is still responding
+    this.consecutiveTimeouts = 0;
+
     const pending = this.pendingRequests.get(response.id);
     if (!pending) {
+      if (this.cancelledRequests.delete(response.id)) {
+        logger.debug('Ignoring response to cancelled request:', response.id);
+        return;
+      }
       logger.warn('Received response for unknown request:', response.id);
       return;
     }
@@ -178,6 +271,88 @@ export class LSPClient {
     }
   }
 
+  private async handleRequest(request: JsonRpcRequest): Promise<void> {
+    logger.debug('Received server request:', request.method);
+
+    const handler = this.requestHandlers.get(request.method);
+    if (!handler) {
+      logger.warn('No handler for server request:', request.method);
+      this.sendMessage({
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32601, // MethodNotFound
+          message: `Unhandled method ${request.method}`
+        }
+      } as JsonRpcResponse);
+      return;
+    }
+
+    try {
+      const result = await handler(request.params);
+      this.sendMessage({
+        jsonrpc: '2.0',
+        id: request.id,
+        result: result === undefined ? null : result
+      } as JsonRpcResponse);
+    } catch (error) {
+      // Handlers reply with a specific JSON-RPC error by throwing an LSPError
+      if (error instanceof LSPError && error.code !== undefined) {
+        this.sendMessage({
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: error.code, message: error.message, data: error.data }
+        } as JsonRpcResponse);
+        return;
+      }
+
+      logger.error('Error in request handler:', error);
+      this.sendMessage({
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32603, // InternalError
+          message: error instanceof Error ? error.message : String(error)
+        }
+      } as JsonRpcResponse);
+    }
+  }
+
+  /**
+   * Register a handler for a server-initiated request method. The handler's
+   * return value is sent as the result; throw an LSPError with a code to
+   * reply with that error instead. Requests without a handler get a
+   * MethodNotFound error. Returns a function that restores the previously
+   * registered handler (or default).
+   */
+  onRequest(method: string, handler: RequestHandler): () => void {
+    const previous = this.requestHandlers.get(method);
+    this.requestHandlers.set(method, handler);
+
+    return () => {
+      if (this.requestHandlers.get(method) !== handler) {
+        return;
+      }
+      if (previous) {
+        this.requestHandlers.set(method, previous);
+      } else {
+        this.requestHandlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Encoding of the columns in positions the server sends and expects, as
+   * negotiated at initialization (UTF-16 unless the server chose otherwise)
+   */
+  getPositionEncoding(): PositionEncoding {
+    return this.positionEncoding;
+  }
+
+  setPositionEncoding(encoding: PositionEncoding): void {
+    this.positionEncoding = encoding;
+  }
+
   /**
    * Register a handler for a specific notification method
    */
@@ -186,9 +361,17 @@ export class LSPClient {
   }
 
   /**
-   * Send a request and wait for the response
+   * Send a request and wait for the response. Pass a timeout in milliseconds,
+   * or options with a timeout and an abort signal. A request that times out
+   * or is aborted is cancelled on the server with $/cancelRequest.
    */
-  async request(method: string, params?: any, timeoutMs: number = 30000): Promise<any> {
+  async request(method: string, params?: any, options: number | RequestOptions = {}): Promise<any> {
+    const { timeoutMs = 30000, signal } = typeof options === 'number' ? { timeoutMs: options } : options;
+
+    if (signal?.aborted) {
+      throw new CancelledError(`LSP request '${method}' cancelled`);
+    }
+
     const id = this.nextId++;
     const request: JsonRpcRequest = {
       jsonrpc: '2.0',
@@ -197,8 +380,14 @@ export class LSPClient {
       params
     };
 
+    let onAbort: (() => void) | undefined;
     const promise = new Promise<any>((resolve, reject) => {
       this.pendingRequests.set(id, { resolve, reject });
+
+      if (signal) {
+        onAbort = () => reject(new CancelledError(`LSP request '${method}' cancelled`));
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
     });
 
     this.sendMessage(request);
@@ -206,8 +395,47 @@ export class LSPClient {
     try {
       return await withTimeout(promise, timeoutMs, `LSP request '${method}' timed out after ${timeoutMs}ms`);
     } catch (error) {
-      this.pendingRequests.delete(id);
+      if (this.pendingRequests.delete(id) && (error instanceof TimeoutError || error instanceof CancelledError)) {
+        // Stop the server from computing a result nobody will read
+        this.cancelledRequests.add(id);
+        this.notify('$/cancelRequest', { id });
+      }
+      if (error instanceof TimeoutError) {
+        this.consecutiveTimeouts++;
+        this.timeoutHandler?.(method, this.consecutiveTimeouts);
+      }
       throw error;
+    } finally {
+      if (signal && onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * Register a callback for requests that time out, with the number of
+   * requests in a row that did, e.g. to detect a hung server
+   */
+  onTimeout(handler: (method: string, consecutiveTimeouts: number) => void): void {
+    this.timeoutHandler = handler;
+  }
+
+  /**
+   * Number of requests waiting for a response
+   */
+  getPendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
+
+  /**
+   * Reject every request still waiting for a response, e.g. when the server
+   * is killed
+   */
+  failPendingRequests(error: Error): void {
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    for (const request of pending) {
+      request.reject(error);
     }
   }
 
@@ -0,0 +1,166 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { readFile } from 'node:fs/promises';
+import { logger } from './utils/logger.js';
+import { LSPError } from './utils/errors.js';
+import { MemoryMonitorOptions } from './utils/restart-policy.js';
+import { LSPClient } from './lsp-client.js';
+
+/**
+ * clangd's $/memoryUsage result: bytes used by a component itself and with
+ * its children, which are the other keys
+ */
+interface MemoryTree {
+  _self: number;
+  _total: number;
+  [component: string]: MemoryTree | number;
+}
+
+/**
+ * Memory use of a language server at one point in time
+ */
+export interface MemorySample {
+  time: number;
+  /** Resident set size of the process, from /proc (Linux only) */
+  rssBytes?: number;
+  /** Memory the server accounts for itself (clangd's $/memoryUsage) */
+  serverBytes?: number;
+  /** serverBytes by top-level component, e.g. clangd's dynamic_index */
+  components?: Record<string, number>;
+}
+
+/**
+ * Resident set size of a process, or undefined where /proc is not available
+ */
+export async function readProcessRss(pid: number): Promise<number | undefined> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf-8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? parseInt(match[1], 10) * 1024 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Samples a language server's memory periodically and reports when its
+ * resident size exceeds the configured limit
+ */
+export class MemoryMonitor {
+  private readonly options: MemoryMonitorOptions;
+  private readonly onLimitExceeded: (sample: MemorySample) => void;
+  private client?: LSPClient;
+  private pid?: number;
+  private timer?: NodeJS.Timeout;
+  // Servers other than clangd do not implement $/memoryUsage
+  private memoryUsageSupported: boolean = true;
+  private lastSample?: MemorySample;
+
+  constructor(options: MemoryMonitorOptions, onLimitExceeded: (sample: MemorySample) => void) {
+    this.options = options;
+    this.onLimitExceeded = onLimitExceeded;
+  }
+
+  /**
+   * Watch a newly started server
+   */
+  start(client: LSPClient, pid: number | undefined): void {
+    this.stop();
+    this.client = client;
+    this.pid = pid;
+    this.lastSample = undefined;
+
+    if (this.options.pollIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.check().catch(error => logger.debug('Memory sample failed:', error));
+      }, this.options.pollIntervalMs);
+      // Sampling alone should not keep the process running
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.client = undefined;
+    this.pid = undefined;
+  }
+
+  getLimitBytes(): number {
+    return this.options.limitBytes;
+  }
+
+  getLastSample(): MemorySample | undefined {
+    return this.lastSample;
+  }
+
+  /**
+   * Sample memory use now. Returns undefined if no server is being watched.
+   */
+  async sample(): Promise<MemorySample | undefined> {
+    const client = this.client;
+    if (!client) {
+      return undefined;
+    }
+
+    const [rssBytes, tree] = await Promise.all([
+      this.pid !== undefined ? readProcessRss(this.pid) : Promise.resolve(undefined),
+      this.requestMemoryUsage(client)
+    ]);
+
+    const sample: MemorySample = { time: Date.now(), rssBytes };
+    if (tree) {
+      sample.serverBytes = tree._total;
+      sample.components = {};
+      for (const [component, value] of Object.entries(tree)) {
+        if (typeof value === 'object') {
+          sample.components[component] = value._total;
+        }
+      }
+    }
+
+    if (this.client === client) {
+      this.lastSample = sample;
+    }
+    return sample;
+  }
+
+  /**
+   * Sample memory use and report it if it exceeds the limit
+   */
+  private async check(): Promise<void> {
+    const client = this.client;
+    const sample = await this.sample();
+    const usedBytes = sample?.rssBytes ?? sample?.serverBytes;
+    if (!sample || usedBytes === undefined || this.client !== client) {
+      return;
+    }
+
+    logger.debug(`Language server memory: ${Math.round(usedBytes / (1024 * 1024))} MB`);
+    if (this.options.limitBytes > 0 && usedBytes > this.options.limitBytes) {
+      this.onLimitExceeded(sample);
+    }
+  }
+
+  private async requestMemoryUsage(client: LSPClient): Promise<MemoryTree | undefined> {
+    if (!this.memoryUsageSupported) {
+      return undefined;
+    }
+
+    try {
+      return await client.request('$/memoryUsage', undefined, 10000);
+    } catch (error) {
+      if (error instanceof LSPError && error.code === -32601) { // MethodNotFound
+        logger.debug('Language server does not report $/memoryUsage');
+        this.memoryUsageSupported = false;
+      } else {
+        logger.debug('$/memoryUsage failed:', error);
+      }
+      return undefined;
+    }
+  }
+}
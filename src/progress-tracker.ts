@@ -0,0 +1,131 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { logger } from './utils/logger.js';
+
+export type ProgressToken = number | string;
+
+/**
+ * A work-done progress operation the server has begun and not yet ended
+ */
+export interface ProgressOperation {
+  token: ProgressToken;
+  title: string;
+  message?: string;
+  percentage?: number;
+  startedAt: number;
+}
+
+/**
+ * Background indexing state, as far as the server reported it
+ */
+export interface IndexStatus {
+  indexing: boolean;
+  percentage?: number;
+  message?: string;
+  /** When the last indexing operation ended */
+  lastCompletedAt?: number;
+}
+
+/**
+ * Token clangd uses for background indexing progress
+ */
+const CLANGD_INDEX_TOKEN = 'backgroundIndexProgress';
+
+/**
+ * Whether a progress operation is indexing: clangd's background index, or
+ * any operation whose title mentions indexing (other servers)
+ */
+export function isIndexOperation(operation: ProgressOperation): boolean {
+  return operation.token === CLANGD_INDEX_TOKEN || /index/i.test(operation.title);
+}
+
+/**
+ * Tracks $/progress begin/report/end notifications per token
+ */
+export class ProgressTracker {
+  private operations: Map<ProgressToken, ProgressOperation> = new Map();
+  private lastIndexCompletedAt?: number;
+
+  /**
+   * Handle the params of a $/progress notification
+   */
+  handleProgress(params: { token: ProgressToken; value: any }): void {
+    const value = params?.value;
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    switch (value.kind) {
+      case 'begin':
+        this.operations.set(params.token, {
+          token: params.token,
+          title: value.title ?? '',
+          message: value.message,
+          percentage: value.percentage,
+          startedAt: Date.now()
+        });
+        logger.debug(`Progress begin (${params.token}): ${value.title}`);
+        break;
+
+      case 'report': {
+        const operation = this.operations.get(params.token);
+        if (!operation) {
+          return;
+        }
+        // Report fields are optional; omitted ones keep their last value
+        if (value.message !== undefined) {
+          operation.message = value.message;
+        }
+        if (value.percentage !== undefined) {
+          operation.percentage = value.percentage;
+        }
+        break;
+      }
+
+      case 'end': {
+        const operation = this.operations.get(params.token);
+        if (!operation) {
+          return;
+        }
+        this.operations.delete(params.token);
+        if (isIndexOperation(operation)) {
+          this.lastIndexCompletedAt = Date.now();
+        }
+        logger.debug(`Progress end (${params.token}): ${operation.title}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Operations that have begun and not yet ended
+   */
+  getOperations(): ProgressOperation[] {
+    return [...this.operations.values()];
+  }
+
+  getIndexStatus(): IndexStatus {
+    const indexing = this.getOperations().filter(isIndexOperation);
+    if (indexing.length === 0) {
+      return { indexing: false, lastCompletedAt: this.lastIndexCompletedAt };
+    }
+
+    // With several, the least advanced one bounds how complete results are
+    const [least] = [...indexing].sort((a, b) => (a.percentage ?? 0) - (b.percentage ?? 0));
+    return {
+      indexing: true,
+      percentage: least.percentage,
+      message: least.message ?? least.title,
+      lastCompletedAt: this.lastIndexCompletedAt
+    };
+  }
+
+  /**
+   * Forget all operations, e.g. when the server process goes away
+   */
+  clear(): void {
+    this.operations.clear();
+  }
+}
@@ -0,0 +1,334 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { extname } from 'node:path';
+import { logger } from './utils/logger.js';
+import { ClangdManager } from './clangd-manager.js';
+import { FileTracker } from './file-tracker.js';
+import { DiagnosticsCache } from './tools/get-diagnostics.js';
+import { detectLanguageServerConfiguration } from './config-detector.js';
+import { LanguageServerProfile, loadLanguageServerProfiles } from './language-servers.js';
+
+/**
+ * A running language server together with the state built on top of it
+ */
+export interface LanguageServerSession {
+  name: string;
+  manager: ClangdManager;
+  fileTracker: FileTracker;
+  diagnosticsCache: DiagnosticsCache;
+  /** Set when the server was restarted, until a tool response reports it */
+  restart?: RestartNotice;
+  /** Set when the server was started again after being stopped for idleness, until a tool response reports it */
+  coldStart?: ColdStartNotice;
+}
+
+/**
+ * What a tool response says about a server restart it did not see
+ */
+export interface RestartNotice {
+  /** Why the server was restarted, e.g. a crash or the memory limit */
+  reason: string;
+  /** When the restarted server was ready, in milliseconds since the epoch */
+  restartedAt: number;
+  /** Files opened again in the new server */
+  reopenedFiles: string[];
+}
+
+/**
+ * What a tool response says about a server it had to start again after the
+ * server was stopped for being idle
+ */
+export interface ColdStartNotice {
+  /** When the server was stopped, in milliseconds since the epoch */
+  stoppedAt: number;
+  /** Time it took to start the server again */
+  startupMs: number;
+}
+
+export interface LanguageServerRegistryOptions {
+  /** Server used for files no enabled server claims, and for workspace-wide queries */
+  defaultServer: string;
+  /** Servers that may be started; all known profiles when not given */
+  enabledServers?: string[];
+  /** Passed on to each FileTracker */
+  watchFiles?: boolean;
+  /** Stop servers that received no tool call for this long (0 or not given: never) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Manages one language server per language and routes files to the server
+ * responsible for their extension. Servers are started lazily on first use.
+ */
+export class LanguageServerRegistry {
+  private readonly projectRoot: string;
+  private profiles: Record<string, LanguageServerProfile>;
+  private readonly options: LanguageServerRegistryOptions;
+  private sessions: Map<string, LanguageServerSession> = new Map();
+  private startPromises: Map<string, Promise<LanguageServerSession>> = new Map();
+  private extensionMap: Map<string, string> = new Map(); // extension -> server name
+  private lastUsed: Map<string, number> = new Map(); // server name -> last tool call or search using it
+  private idleStopped: Map<string, number> = new Map(); // server name -> when it was stopped for idleness
+  private idleTimer?: NodeJS.Timeout;
+
+  constructor(projectRoot: string, options: LanguageServerRegistryOptions) {
+    this.projectRoot = projectRoot;
+    this.options = options;
+    this.profiles = loadLanguageServerProfiles(projectRoot);
+
+    if (!this.profiles[options.defaultServer]) {
+      throw new Error(
+        `Unknown language server '${options.defaultServer}'. Available: ${Object.keys(this.profiles).join(', ')}`
+      );
+    }
+
+    const enabled = options.enabledServers ?? Object.keys(this.profiles);
+    // The default server claims its extensions first
+    const ordered = [options.defaultServer, ...enabled.filter(name => name !== options.defaultServer)];
+
+    for (const name of ordered) {
+      const profile = this.profiles[name];
+      if (!profile) {
+        logger.warn(`Ignoring unknown language server '${name}'`);
+        continue;
+      }
+      for (const ext of Object.keys(profile.extensions)) {
+        if (!this.extensionMap.has(ext)) {
+          this.extensionMap.set(ext, name);
+        }
+      }
+    }
+
+    const idleTimeoutMs = options.idleTimeoutMs ?? 0;
+    if (idleTimeoutMs > 0) {
+      this.idleTimer = setInterval(() => {
+        this.stopIdleSessions().catch(error => logger.error('Failed to stop idle language servers:', error));
+      }, Math.min(idleTimeoutMs, 60000));
+      // Idle checks alone should not keep the process running
+      this.idleTimer.unref();
+    }
+  }
+
+  /**
+   * Root of the project the servers work on
+   */
+  getProjectRoot(): string {
+    return this.projectRoot;
+  }
+
+  /**
+   * Name of the server used for unclaimed files and workspace-wide queries
+   */
+  getDefaultServerName(): string {
+    return this.options.defaultServer;
+  }
+
+  /**
+   * Name of the server responsible for a file
+   */
+  getServerNameForFile(filePath: string): string {
+    const ext = extname(filePath).slice(1).toLowerCase();
+    return this.extensionMap.get(ext) ?? this.options.defaultServer;
+  }
+
+  /**
+   * Get the session for the server responsible for a file, starting it if needed
+   */
+  async getSessionForFile(filePath: string): Promise<LanguageServerSession> {
+    return this.getSession(this.getServerNameForFile(filePath));
+  }
+
+  /**
+   * Get the session for the default server, starting it if needed
+   */
+  async getDefaultSession(): Promise<LanguageServerSession> {
+    return this.getSession(this.options.defaultServer);
+  }
+
+  /**
+   * Get a session by server name, starting the server if needed.
+   * Concurrent callers share a single start attempt.
+   */
+  async getSession(name: string): Promise<LanguageServerSession> {
+    this.lastUsed.set(name, Date.now());
+
+    // A crashed server may be restarting; its session is usable once it has
+    const session = this.sessions.get(name);
+    if (session) {
+      await session.manager.waitForRestart();
+      // One that crashed too often stays down until restartServer()
+      if (session.manager.hasGivenUp()) {
+        throw session.manager.getDownError();
+      }
+    }
+
+    // Fast path: already initialized
+    if (session && session.manager.isReady()) {
+      return session;
+    }
+
+    // If initialization is in progress, wait for it
+    const pending = this.startPromises.get(name);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = this.startSession(name).finally(() => {
+      // Release lock after completion (success or failure)
+      this.startPromises.delete(name);
+    });
+    this.startPromises.set(name, promise);
+    return promise;
+  }
+
+  /**
+   * Restart a server on request, e.g. after it crashed too often to be
+   * restarted automatically. Open files are reopened in the new server.
+   * A server that was never started is started.
+   */
+  async restartServer(name: string): Promise<LanguageServerSession> {
+    if (!this.profiles[name]) {
+      throw new Error(`Unknown language server '${name}'. Available: ${Object.keys(this.profiles).join(', ')}`);
+    }
+
+    const session = this.sessions.get(name);
+    if (!session) {
+      return this.getSession(name);
+    }
+
+    await session.manager.restart();
+    return session;
+  }
+
+  private async startSession(name: string): Promise<LanguageServerSession> {
+    // Tear down a previous session whose server is no longer usable
+    const stale = this.sessions.get(name);
+    if (stale) {
+      this.sessions.delete(name);
+      await stale.manager.shutdown();
+    }
+
+    const config = detectLanguageServerConfiguration(name);
+    logger.info(`Initializing ${config.name}...`);
+
+    const startedAt = Date.now();
+    const manager = new ClangdManager(config);
+    await manager.start();
+
+    const fileTracker = new FileTracker(manager.getClient(), {
+      watchFiles: this.options.watchFiles,
+      profile: config.profile
+    });
+
+    // Initialize diagnostics cache
+    const diagnosticsCache = new DiagnosticsCache(manager.getClient());
+
+    // Hook diagnostics cache to file tracker eviction
+    fileTracker.onFileClosed((uri) => {
+      diagnosticsCache.clearForFile(uri);
+    });
+
+    // Drop stale diagnostics when a file is re-sent after an on-disk edit
+    fileTracker.onFileChanged((uri, version) => {
+      diagnosticsCache.invalidate(uri, version);
+    });
+
+    const session: LanguageServerSession = { name, manager, fileTracker, diagnosticsCache };
+    this.sessions.set(name, session);
+
+    const stoppedAt = this.idleStopped.get(name);
+    if (stoppedAt !== undefined) {
+      this.idleStopped.delete(name);
+      session.coldStart = { stoppedAt, startupMs: Date.now() - startedAt };
+    }
+
+    // Move the session over to the server that replaces this one after a restart
+    manager.onRestart(async (client, reason) => {
+      diagnosticsCache.rebind(client);
+      const reopenedFiles = await fileTracker.rebind(client);
+      session.restart = { reason, restartedAt: Date.now(), reopenedFiles };
+    });
+
+    logger.info(`${config.name} initialization complete`);
+    return session;
+  }
+
+  /**
+   * All sessions, including ones whose server is restarting or down
+   */
+  getSessions(): LanguageServerSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Sessions whose server is currently running
+   */
+  getRunningSessions(): LanguageServerSession[] {
+    return [...this.sessions.values()].filter(session => session.manager.isReady());
+  }
+
+  /**
+   * Sessions to query for workspace-wide searches: every running server, or
+   * the default server if none has been started yet. A search counts as use
+   * of each server, so one that is only searched is not stopped as idle.
+   */
+  async getSearchSessions(): Promise<LanguageServerSession[]> {
+    const running = this.getRunningSessions();
+    if (running.length === 0) {
+      return [await this.getDefaultSession()];
+    }
+
+    const now = Date.now();
+    for (const session of running) {
+      this.lastUsed.set(session.name, now);
+    }
+    return running;
+  }
+
+  /**
+   * Stop servers that received no tool call for the idle timeout and have
+   * no request in flight. They are started again on their next tool call.
+   */
+  async stopIdleSessions(now: number = Date.now()): Promise<void> {
+    const idleTimeoutMs = this.options.idleTimeoutMs ?? 0;
+    if (idleTimeoutMs <= 0) {
+      return;
+    }
+
+    const idle = this.getRunningSessions().filter(session =>
+      now - (this.lastUsed.get(session.name) ?? 0) >= idleTimeoutMs &&
+      !this.startPromises.has(session.name) &&
+      session.manager.getClient().getPendingRequestCount() === 0
+    );
+
+    await Promise.all(idle.map(async (session) => {
+      const idleMinutes = Math.round((now - this.lastUsed.get(session.name)!) / 60000);
+      logger.info(`Stopping ${session.name} after ${idleMinutes} minutes without tool calls`);
+
+      this.sessions.delete(session.name);
+      this.idleStopped.set(session.name, now);
+      session.fileTracker.closeAll();
+      await session.manager.shutdown();
+    }));
+  }
+
+  /**
+   * Close all files and shut down every server
+   */
+  async shutdown(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+
+    await Promise.all(sessions.map(async (session) => {
+      session.fileTracker.closeAll();
+      await session.manager.shutdown();
+    }));
+  }
+}
@@ -0,0 +1,282 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LSPClient } from '../lsp-client.js';
+import { FileTracker } from '../file-tracker.js';
+import { DiagnosticsCache } from './get-diagnostics.js';
+import { CancelledError, LSPError, withRetry } from '../utils/errors.js';
+import { CodeAction, Command, Diagnostic, Range, TextEdit, WorkspaceEdit } from '../utils/lsp-types.js';
+import { previewWorkspaceEdit, applyWorkspaceEdit, collectTextEdits } from '../utils/workspace-edit.js';
+import { logger } from '../utils/logger.js';
+import { FileAccessCheck } from '../utils/path-policy.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+
+/**
+ * Selects one action from the list returned by textDocument/codeAction
+ */
+export interface CodeActionSelector {
+  index?: number;
+  title?: string;
+}
+
+/**
+ * Check whether two ranges overlap (touching ranges count as overlapping)
+ */
+function rangesOverlap(a: Range, b: Range): boolean {
+  const before = (x: Range['start'], y: Range['start']) =>
+    x.line < y.line || (x.line === y.line && x.character < y.character);
+  return !before(a.end, b.start) && !before(b.end, a.start);
+}
+
+/**
+ * Commands and CodeActions can both be returned; normalize to CodeAction
+ */
+function normalizeAction(action: Command | CodeAction): CodeAction {
+  if (typeof (action as Command).command === 'string') {
+    const command = action as Command;
+    return { title: command.title, command };
+  }
+  return action as CodeAction;
+}
+
+/**
+ * Request the code actions available for a range, seeded with the cached
+ * diagnostics that overlap it so that clangd can offer their fix-its
+ */
+async function requestCodeActions(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  diagnosticsCache: DiagnosticsCache | null,
+  filePath: string,
+  requestedRange: Range,
+  includeDiagnostics: boolean,
+  signal?: AbortSignal
+): Promise<CodeAction[]> {
+  // Ensure file is opened
+  const uri = await fileTracker.ensureFileOpen(filePath);
+  const range = await new LocationFormatter(lspClient.getPositionEncoding()).toServerRange(uri, requestedRange);
+
+  const diagnostics: Diagnostic[] = includeDiagnostics && diagnosticsCache
+    ? diagnosticsCache.getCachedDiagnostics(uri).filter(diag => rangesOverlap(diag.range, range))
+    : [];
+
+  // Make LSP request with retry
+  const actions: Array<Command | CodeAction> = await withRetry(async () => {
+    const result = await lspClient.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range,
+      context: { diagnostics }
+    }, { signal });
+
+    return result || [];
+  });
+
+  return actions.map(normalizeAction);
+}
+
+export async function getCodeActions(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  diagnosticsCache: DiagnosticsCache | null,
+  filePath: string,
+  range: Range,
+  includeDiagnostics: boolean = true,
+  signal?: AbortSignal
+): Promise<string> {
+  const actions = await requestCodeActions(
+    lspClient, fileTracker, diagnosticsCache, filePath, range, includeDiagnostics, signal
+  );
+
+  // Format results
+  if (actions.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: 'No code actions available for this range'
+    });
+  }
+
+  const formattedActions = actions.map((action, index) => ({
+    index,
+    title: action.title,
+    kind: action.kind,
+    is_preferred: action.isPreferred === true,
+    has_edit: !!action.edit,
+    command: action.command?.command,
+    diagnostics: action.diagnostics?.map(diag => diag.message)
+  }));
+
+  return JSON.stringify({
+    found: true,
+    count: formattedActions.length,
+    actions: formattedActions
+  }, null, 2);
+}
+
+/**
+ * Command executions in flight per client. workspace/applyEdit does not say
+ * which command sent it, so a client runs one command at a time and every
+ * edit arriving meanwhile belongs to that command.
+ */
+const commandQueues = new WeakMap<LSPClient, Promise<unknown>>();
+
+/**
+ * Execute a command and capture the edits the server sends back through
+ * workspace/applyEdit (this is how clangd delivers tweak results). The
+ * server is told the edits were applied only if they are to be written.
+ */
+async function executeCommandCapturingEdits(
+  lspClient: LSPClient,
+  command: Command,
+  apply: boolean,
+  signal?: AbortSignal
+): Promise<{ edits: WorkspaceEdit[]; result: any }> {
+  const previous = commandQueues.get(lspClient) ?? Promise.resolve();
+  const execution = previous.then(() => executeCommand(lspClient, command, apply, signal));
+  const queued = execution.catch(() => {});
+  commandQueues.set(lspClient, queued);
+
+  try {
+    return await execution;
+  } finally {
+    if (commandQueues.get(lspClient) === queued) {
+      commandQueues.delete(lspClient);
+    }
+  }
+}
+
+async function executeCommand(
+  lspClient: LSPClient,
+  command: Command,
+  apply: boolean,
+  signal?: AbortSignal
+): Promise<{ edits: WorkspaceEdit[]; result: any }> {
+  if (signal?.aborted) {
+    throw new CancelledError(`Command '${command.command}' cancelled`);
+  }
+
+  const edits: WorkspaceEdit[] = [];
+  const restore = lspClient.onRequest('workspace/applyEdit', (params: any) => {
+    edits.push(params.edit);
+    // Edits are written by us (if requested) once the command completes
+    return apply
+      ? { applied: true }
+      : { applied: false, failureReason: 'Edits are only previewed' };
+  });
+
+  try {
+    const result = await lspClient.request('workspace/executeCommand', {
+      command: command.command,
+      arguments: command.arguments
+    }, { signal });
+    return { edits, result };
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Merge several WorkspaceEdits into a single `changes`-style edit
+ */
+function mergeWorkspaceEdits(edits: WorkspaceEdit[]): WorkspaceEdit {
+  const changes: { [uri: string]: TextEdit[] } = {};
+  for (const edit of edits) {
+    for (const [uri, textEdits] of collectTextEdits(edit)) {
+      changes[uri] = (changes[uri] || []).concat(textEdits);
+    }
+  }
+  return { changes };
+}
+
+export async function applyCodeAction(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  diagnosticsCache: DiagnosticsCache | null,
+  filePath: string,
+  range: Range,
+  selector: CodeActionSelector,
+  apply: boolean = false,
+  includeDiagnostics: boolean = true,
+  signal?: AbortSignal,
+  checkAccess?: FileAccessCheck
+): Promise<string> {
+  const actions = await requestCodeActions(
+    lspClient, fileTracker, diagnosticsCache, filePath, range, includeDiagnostics, signal
+  );
+
+  let action = selector.title !== undefined
+    ? actions.find(candidate => candidate.title === selector.title)
+    : actions[selector.index ?? 0];
+
+  if (!action) {
+    return JSON.stringify({
+      success: false,
+      message: 'Code action not found',
+      available: actions.map((candidate, index) => ({ index, title: candidate.title }))
+    });
+  }
+
+  // Lazily computed actions need to be resolved before they carry an edit
+  if (!action.edit && !action.command && action.data !== undefined) {
+    try {
+      action = await lspClient.request('codeAction/resolve', action, { signal }) as CodeAction;
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      logger.warn('codeAction/resolve failed:', error);
+    }
+  }
+
+  const workspaceEdits: WorkspaceEdit[] = [];
+  let commandResult: any;
+
+  if (action.edit) {
+    workspaceEdits.push(action.edit);
+  }
+
+  if (action.command) {
+    try {
+      const executed = await executeCommandCapturingEdits(lspClient, action.command, apply, signal);
+      workspaceEdits.push(...executed.edits);
+      commandResult = executed.result;
+    } catch (error) {
+      if (error instanceof LSPError) {
+        return JSON.stringify({
+          success: false,
+          message: `Failed to execute '${action.title}': ${error.message}`
+        });
+      }
+      throw error;
+    }
+  }
+
+  const edit = mergeWorkspaceEdits(workspaceEdits);
+  const encoding = lspClient.getPositionEncoding();
+  const files = await previewWorkspaceEdit(edit, encoding, checkAccess);
+  const editCount = files.reduce((total, file) => total + file.edits.length, 0);
+
+  if (apply && editCount > 0) {
+    // Do not touch the disk for a call that was cancelled meanwhile
+    if (signal?.aborted) {
+      throw new CancelledError('Code action cancelled');
+    }
+    const modified = await applyWorkspaceEdit(edit, encoding, checkAccess);
+
+    // Send the new content of modified files that are open
+    for (const file of modified) {
+      await fileTracker.refreshFile(file);
+    }
+  }
+
+  return JSON.stringify({
+    success: true,
+    title: action.title,
+    kind: action.kind,
+    applied: apply && editCount > 0,
+    command_result: commandResult ?? undefined,
+    file_count: files.length,
+    edit_count: editCount,
+    files
+  }, null, 2);
+}
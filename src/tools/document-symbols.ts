@@ -5,26 +5,14 @@
 import { LSPClient } from '../lsp-client.js';
 import { FileTracker } from '../file-tracker.js';
 import { withRetry } from '../utils/errors.js';
-import { symbolKindNames } from '../utils/lsp-types.js';
-
-interface DocumentSymbol {
-  name: string;
-  kind: number;
-  range: {
-    start: { line: number; character: number };
-    end: { line: number; character: number };
-  };
-  selectionRange: {
-    start: { line: number; character: number };
-    end: { line: number; character: number };
-  };
-  children?: DocumentSymbol[];
-}
+import { DocumentSymbol, symbolKindNames } from '../utils/lsp-types.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
 
 export async function getDocumentSymbols(
   lspClient: LSPClient,
   fileTracker: FileTracker,
-  filePath: string
+  filePath: string,
+  signal?: AbortSignal
 ): Promise<string> {
   // Ensure file is opened
   const uri = await fileTracker.ensureFileOpen(filePath);
@@ -33,7 +21,7 @@ export async function getDocumentSymbols(
   const symbols: DocumentSymbol[] = await withRetry(async () => {
     const result = await lspClient.request('textDocument/documentSymbol', {
       textDocument: { uri }
-    });
+    }, { signal });
 
     return result || [];
   });
@@ -46,7 +34,8 @@ export async function getDocumentSymbols(
     });
   }
 
-  const formattedSymbols = symbols.map(formatSymbol);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const formattedSymbols = await Promise.all(symbols.map(symbol => formatSymbol(symbol, uri, formatter)));
 
   return JSON.stringify({
     found: true,
@@ -55,15 +44,18 @@ export async function getDocumentSymbols(
   }, null, 2);
 }
 
-function formatSymbol(symbol: DocumentSymbol): any {
+async function formatSymbol(symbol: DocumentSymbol, uri: string, formatter: LocationFormatter): Promise<any> {
+  const range = await formatter.toClientRange(uri, symbol.range);
   return {
     name: symbol.name,
     kind: symbolKindNames[symbol.kind] || `Unknown(${symbol.kind})`,
-    line: symbol.range.start.line,
-    column: symbol.range.start.character,
-    endLine: symbol.range.end.line,
-    endColumn: symbol.range.end.character,
-    children: symbol.children?.map(formatSymbol)
+    line: range.start.line,
+    column: range.start.character,
+    endLine: range.end.line,
+    endColumn: range.end.character,
+    children: symbol.children && await Promise.all(
+      symbol.children.map(child => formatSymbol(child, uri, formatter))
+    )
   };
 }
 
@@ -7,23 +7,28 @@ import { FileTracker } from '../file-tracker.js';
 import { uriToPath } from '../utils/uri.js';
 import { withRetry } from '../utils/errors.js';
 import { Location, normalizeLocationResult } from '../utils/lsp-types.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
 
 export async function findDefinition(
   lspClient: LSPClient,
   fileTracker: FileTracker,
   filePath: string,
   line: number,
-  column: number
+  column: number,
+  contextLines?: number,
+  signal?: AbortSignal
 ): Promise<string> {
   // Ensure file is opened
   const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
 
   // Make LSP request with retry
   const locations = await withRetry(async () => {
     const result = await lspClient.request('textDocument/definition', {
       textDocument: { uri },
-      position: { line, character: column }
-    });
+      position
+    }, { signal });
 
     return normalizeLocationResult(result);
   });
@@ -36,12 +41,12 @@ export async function findDefinition(
     });
   }
 
-  const formattedLocations = locations.map(loc => ({
+  const formattedLocations = await Promise.all(locations.map(async loc => ({
     file: uriToPath(loc.uri),
-    line: loc.range.start.line,
-    column: loc.range.start.character,
-    uri: loc.uri
-  }));
+    ...await formatter.position(loc.uri, loc.range.start),
+    uri: loc.uri,
+    context: await formatter.context(loc.uri, loc.range, contextLines)
+  })));
 
   return JSON.stringify({
     found: true,
@@ -7,6 +7,7 @@ import { FileTracker } from '../file-tracker.js';
 import { uriToPath } from '../utils/uri.js';
 import { withRetry } from '../utils/errors.js';
 import { Location } from '../utils/lsp-types.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
 
 export async function findReferences(
   lspClient: LSPClient,
@@ -14,20 +15,24 @@ export async function findReferences(
   filePath: string,
   line: number,
   column: number,
-  includeDeclaration: boolean = true
+  includeDeclaration: boolean = true,
+  contextLines?: number,
+  signal?: AbortSignal
 ): Promise<string> {
   // Ensure file is opened
   const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
 
   // Make LSP request with retry
   const locations = await withRetry(async () => {
     const result = await lspClient.request('textDocument/references', {
       textDocument: { uri },
-      position: { line, character: column },
+      position,
       context: {
         includeDeclaration
       }
-    });
+    }, { signal });
 
     return result || [];
   });
@@ -40,12 +45,12 @@ export async function findReferences(
     });
   }
 
-  const formattedLocations = locations.map((loc: Location) => ({
+  const formattedLocations = await Promise.all(locations.map(async (loc: Location) => ({
     file: uriToPath(loc.uri),
-    line: loc.range.start.line,
-    column: loc.range.start.character,
-    uri: loc.uri
-  }));
+    ...await formatter.position(loc.uri, loc.range.start),
+    uri: loc.uri,
+    context: await formatter.context(loc.uri, loc.range, contextLines)
+  })));
 
   return JSON.stringify({
     found: true,
@@ -0,0 +1,325 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LSPClient } from '../lsp-client.js';
+import { FileTracker } from '../file-tracker.js';
+import { uriToPath } from '../utils/uri.js';
+import { CancelledError, withRetry } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import {
+  CallHierarchyItem,
+  CallHierarchyIncomingCall,
+  CallHierarchyOutgoingCall,
+  Range,
+  symbolKindNames
+} from '../utils/lsp-types.js';
+import { DiagramBuilder, OutputFormat, formatDiagram } from '../utils/diagram.js';
+import { IndexBase } from '../utils/index-base.js';
+import {
+  HierarchySelection,
+  formatNoMatchingOverload,
+  prepareHierarchy,
+  selectHierarchyItems
+} from '../utils/hierarchy-helper.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+
+export type CallGraphDirection = 'incoming' | 'outgoing';
+
+/**
+ * A function in the call graph. Nodes are de-duplicated by the position of
+ * their name, so a function reached along several paths appears once.
+ */
+export interface CallGraphNode {
+  id: string;
+  item: CallHierarchyItem;
+  depth: number;
+  /** Whether its callers (incoming) or callees (outgoing) were queried */
+  expanded: boolean;
+  /** Set when max_nodes dropped some of its callers or callees */
+  truncated?: boolean;
+}
+
+/**
+ * A call from one function to another; call sites are in the caller's file
+ */
+export interface CallGraphEdge {
+  from: string;
+  to: string;
+  callSites: Range[];
+  /** Set on edges that close a cycle (recursion) */
+  cycle?: boolean;
+}
+
+export interface CallGraph {
+  root: string;
+  direction: CallGraphDirection;
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+  /** Set when max_nodes stopped the walk before it was complete */
+  truncated: boolean;
+}
+
+export interface CallGraphLimits {
+  maxDepth: number;
+  maxNodes: number;
+}
+
+function itemKey(item: CallHierarchyItem): string {
+  return `${item.uri}:${item.selectionRange.start.line}:${item.selectionRange.start.character}`;
+}
+
+/**
+ * Query the direct callers or callees of an item. A failure is logged and
+ * treated as having none, so one bad item does not lose the whole graph.
+ */
+async function fetchCalls(
+  lspClient: LSPClient,
+  item: CallHierarchyItem,
+  direction: CallGraphDirection,
+  signal?: AbortSignal
+): Promise<Array<{ item: CallHierarchyItem; callSites: Range[] }>> {
+  try {
+    if (direction === 'incoming') {
+      const calls: CallHierarchyIncomingCall[] = await withRetry(async () =>
+        (await lspClient.request('callHierarchy/incomingCalls', { item }, { signal })) || []
+      );
+      return calls.map(call => ({ item: call.from, callSites: call.fromRanges }));
+    }
+
+    const calls: CallHierarchyOutgoingCall[] = await withRetry(async () =>
+      (await lspClient.request('callHierarchy/outgoingCalls', { item }, { signal })) || []
+    );
+    return calls.map(call => ({ item: call.to, callSites: call.fromRanges }));
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
+    logger.warn(`callHierarchy/${direction}Calls failed for ${item.name}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Mark edges that close a cycle, found with a depth-first search over the
+ * explored graph
+ */
+function markCycles(graph: CallGraph): void {
+  const outgoing = new Map<string, CallGraphEdge[]>();
+  for (const edge of graph.edges) {
+    const list = outgoing.get(edge.from) ?? [];
+    list.push(edge);
+    outgoing.set(edge.from, list);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string): void => {
+    state.set(id, 'visiting');
+    for (const edge of outgoing.get(id) ?? []) {
+      const next = state.get(edge.to);
+      if (next === 'visiting') {
+        edge.cycle = true;
+      } else if (next === undefined) {
+        visit(edge.to);
+      }
+    }
+    state.set(id, 'done');
+  };
+
+  for (const node of graph.nodes) {
+    if (!state.has(node.id)) {
+      visit(node.id);
+    }
+  }
+}
+
+/**
+ * Walk the call hierarchy breadth-first from an item, up to maxDepth levels
+ * and maxNodes functions. Edges always point from caller to callee,
+ * whichever direction is walked.
+ */
+export async function buildCallGraph(
+  lspClient: LSPClient,
+  rootItem: CallHierarchyItem,
+  direction: CallGraphDirection,
+  limits: CallGraphLimits,
+  signal?: AbortSignal
+): Promise<CallGraph> {
+  const nodes = new Map<string, CallGraphNode>();
+  const edges: CallGraphEdge[] = [];
+  let truncated = false;
+
+  const root: CallGraphNode = { id: 'n0', item: rootItem, depth: 0, expanded: false };
+  nodes.set(itemKey(rootItem), root);
+
+  let frontier = [root];
+  for (let depth = 0; depth < limits.maxDepth && frontier.length > 0 && !truncated; depth++) {
+    const next: CallGraphNode[] = [];
+
+    for (const node of frontier) {
+      const calls = await fetchCalls(lspClient, node.item, direction, signal);
+      node.expanded = true;
+
+      for (const call of calls) {
+        const key = itemKey(call.item);
+        let target = nodes.get(key);
+        if (!target) {
+          if (nodes.size >= limits.maxNodes) {
+            truncated = true;
+            node.truncated = true;
+            continue;
+          }
+          target = { id: `n${nodes.size}`, item: call.item, depth: depth + 1, expanded: false };
+          nodes.set(key, target);
+          next.push(target);
+        }
+
+        edges.push(direction === 'incoming'
+          ? { from: target.id, to: node.id, callSites: call.callSites }
+          : { from: node.id, to: target.id, callSites: call.callSites });
+      }
+
+      if (truncated) {
+        break;
+      }
+    }
+
+    frontier = next;
+  }
+
+  const graph: CallGraph = { root: root.id, direction, nodes: [...nodes.values()], edges, truncated };
+  markCycles(graph);
+  return graph;
+}
+
+/**
+ * Format a call graph node for tool output
+ */
+export async function formatCallGraphNode(node: CallGraphNode, formatter: LocationFormatter): Promise<any> {
+  return {
+    id: node.id,
+    name: node.item.name,
+    kind: symbolKindNames[node.item.kind] || `Unknown(${node.item.kind})`,
+    detail: node.item.detail,
+    file: uriToPath(node.item.uri),
+    ...await formatter.position(node.item.uri, node.item.selectionRange.start),
+    depth: node.depth,
+    expanded: node.expanded,
+    truncated: node.truncated
+  };
+}
+
+/**
+ * Format a call graph for tool output
+ */
+async function formatCallGraph(graph: CallGraph, limits: CallGraphLimits, formatter: LocationFormatter): Promise<any> {
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+
+  // Expanded nodes with nothing further in the walked direction: functions
+  // nobody calls (incoming) or that call nothing (outgoing). A node whose
+  // calls max_nodes dropped may only look that way.
+  const linked = new Set(graph.edges.map(edge => graph.direction === 'incoming' ? edge.to : edge.from));
+  const terminals = graph.nodes
+    .filter(node => node.expanded && !node.truncated && !linked.has(node.id))
+    .map(node => node.id);
+
+  return {
+    direction: graph.direction,
+    root: graph.root,
+    max_depth: limits.maxDepth,
+    node_count: graph.nodes.length,
+    edge_count: graph.edges.length,
+    truncated: graph.truncated,
+    has_cycles: graph.edges.some(edge => edge.cycle),
+    [graph.direction === 'incoming' ? 'entry_points' : 'leaves']: terminals,
+    nodes: await Promise.all(graph.nodes.map(node => formatCallGraphNode(node, formatter))),
+    edges: await Promise.all(graph.edges.map(async edge => ({
+      from: edge.from,
+      to: edge.to,
+      call_sites: await Promise.all(edge.callSites.map(range =>
+        formatter.position(nodes.get(edge.from)!.item.uri, range.start)
+      )),
+      cycle: edge.cycle
+    })))
+  };
+}
+
+export async function getCallGraph(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  filePath: string,
+  line: number,
+  column: number,
+  direction: CallGraphDirection = 'incoming',
+  limits: CallGraphLimits = { maxDepth: 3, maxNodes: 100 },
+  format: OutputFormat = 'json',
+  indexBase: IndexBase = 0,
+  selection: HierarchySelection = {},
+  signal?: AbortSignal
+): Promise<string> {
+  // Ensure file is opened
+  const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
+
+  const items = await withRetry(async () => {
+    return await prepareHierarchy<CallHierarchyItem>(
+      lspClient,
+      'textDocument/prepareCallHierarchy',
+      uri,
+      position,
+      signal
+    );
+  });
+
+  if (items.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: 'No call hierarchy available at this position'
+    });
+  }
+
+  const selected = selectHierarchyItems(items, selection);
+  if (selected.length === 0) {
+    return formatNoMatchingOverload(items, selection, formatter);
+  }
+
+  // Each overload gets its own graph and limits
+  const graphs: Array<{ index: number; graph: CallGraph }> = [];
+  for (const { index, item } of selected) {
+    graphs.push({ index, graph: await buildCallGraph(lspClient, item, direction, limits, signal) });
+  }
+
+  if (format !== 'json') {
+    // Overloads share one diagram; functions reached from several are drawn once
+    const diagram = new DiagramBuilder();
+    const roots: string[] = [];
+    for (const { graph } of graphs) {
+      const ids = new Map(graph.nodes.map(node => [node.id, diagram.addItem(node.item)]));
+      roots.push(ids.get(graph.root)!);
+      for (const edge of graph.edges) {
+        diagram.addEdge(ids.get(edge.from)!, ids.get(edge.to)!, edge.cycle);
+      }
+    }
+    return formatDiagram(diagram.build('call_graph', 'LR', roots), format, indexBase);
+  }
+
+  if (graphs.length === 1) {
+    const [{ index, graph }] = graphs;
+    return JSON.stringify({
+      found: true,
+      ...await formatCallGraph(graph, limits, formatter),
+      // Which overload this is, when there was a choice
+      ...(items.length > 1 ? { item_index: index, overload_count: items.length } : {})
+    }, null, 2);
+  }
+
+  return JSON.stringify({
+    found: true,
+    overload_count: items.length,
+    overloads: await Promise.all(graphs.map(async ({ index, graph }) => ({
+      item_index: index,
+      ...await formatCallGraph(graph, limits, formatter)
+    })))
+  }, null, 2);
+}
@@ -10,98 +10,168 @@ import {
   CallHierarchyItem,
   CallHierarchyIncomingCall,
   CallHierarchyOutgoingCall,
+  Range,
   symbolKindNames
 } from '../utils/lsp-types.js';
-import { fetchTwoPhaseHierarchy } from '../utils/hierarchy-helper.js';
-
-export async function getCallHierarchy(
-  lspClient: LSPClient,
-  fileTracker: FileTracker,
-  filePath: string,
-  line: number,
-  column: number
-): Promise<string> {
-  // Ensure file is opened
-  const uri = await fileTracker.ensureFileOpen(filePath);
-
-  // Fetch call hierarchy with retry
-  const result = await withRetry(async () => {
-    return await fetchTwoPhaseHierarchy<
-      CallHierarchyItem,
-      CallHierarchyIncomingCall,
-      CallHierarchyOutgoingCall
-    >(
-      lspClient,
-      'textDocument/prepareCallHierarchy',
-      'callHierarchy/incomingCalls',
-      'callHierarchy/outgoingCalls',
-      uri,
-      { line, character: column }
-    );
-  });
+import {
+  HierarchyResult,
+  HierarchySelection,
+  fetchTwoPhaseHierarchy,
+  formatNoMatchingOverload
+} from '../utils/hierarchy-helper.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+import { DiagramBuilder, OutputFormat, formatDiagram } from '../utils/diagram.js';
+import { IndexBase } from '../utils/index-base.js';
 
-  // Handle no hierarchy available
-  if (!result) {
-    return JSON.stringify({
-      found: false,
-      message: 'No call hierarchy available at this position'
-    });
-  }
+type CallHierarchyResult = HierarchyResult<CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall>;
 
+/**
+ * Format one item's callers and callees
+ */
+async function formatCallHierarchy(
+  result: CallHierarchyResult,
+  formatter: LocationFormatter,
+  contextLines?: number
+): Promise<any> {
   // Format the main item
   const symbolKind = symbolKindNames[result.item.kind] || `Unknown(${result.item.kind})`;
   const mainSymbol = {
     name: result.item.name,
     kind: symbolKind,
+    detail: result.item.detail,
     location: {
       file: uriToPath(result.item.uri),
-      line: result.item.selectionRange.start.line,
-      column: result.item.selectionRange.start.character
+      ...await formatter.position(result.item.uri, result.item.selectionRange.start),
+      context: await formatter.context(result.item.uri, result.item.selectionRange, contextLines)
     }
   };
 
+  // Call sites are in the caller's file: the incoming caller, or this function for outgoing calls
+  const formatCallSites = (uri: string, ranges: Range[]) => Promise.all(ranges.map(async range => ({
+    ...await formatter.position(uri, range.start),
+    context: await formatter.context(uri, range, contextLines)
+  })));
+
   // Format incoming calls (who calls this function)
-  const incomingCalls = result.incoming.map((call: CallHierarchyIncomingCall) => {
+  const incomingCalls = await Promise.all(result.incoming.map(async (call: CallHierarchyIncomingCall) => {
     const callerKind = symbolKindNames[call.from.kind] || `Unknown(${call.from.kind})`;
     return {
       caller: call.from.name,
       kind: callerKind,
       location: {
         file: uriToPath(call.from.uri),
-        line: call.from.selectionRange.start.line,
-        column: call.from.selectionRange.start.character
+        ...await formatter.position(call.from.uri, call.from.selectionRange.start)
       },
-      call_sites: call.fromRanges.map(range => ({
-        line: range.start.line,
-        column: range.start.character
-      }))
+      call_sites: await formatCallSites(call.from.uri, call.fromRanges)
     };
-  });
+  }));
 
   // Format outgoing calls (what this function calls)
-  const outgoingCalls = result.outgoing.map((call: CallHierarchyOutgoingCall) => {
+  const outgoingCalls = await Promise.all(result.outgoing.map(async (call: CallHierarchyOutgoingCall) => {
     const calleeKind = symbolKindNames[call.to.kind] || `Unknown(${call.to.kind})`;
     return {
       callee: call.to.name,
       kind: calleeKind,
       location: {
         file: uriToPath(call.to.uri),
-        line: call.to.selectionRange.start.line,
-        column: call.to.selectionRange.start.character
+        ...await formatter.position(call.to.uri, call.to.selectionRange.start),
+        context: await formatter.context(call.to.uri, call.to.selectionRange, contextLines)
       },
-      call_sites: call.fromRanges.map(range => ({
-        line: range.start.line,
-        column: range.start.character
-      }))
+      call_sites: await formatCallSites(result.item.uri, call.fromRanges)
     };
-  });
+  }));
 
-  return JSON.stringify({
-    found: true,
+  return {
     symbol: mainSymbol,
     incoming_calls: incomingCalls,
     incoming_count: incomingCalls.length,
     outgoing_calls: outgoingCalls,
     outgoing_count: outgoingCalls.length
+  };
+}
+
+export async function getCallHierarchy(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  filePath: string,
+  line: number,
+  column: number,
+  contextLines?: number,
+  format: OutputFormat = 'json',
+  indexBase: IndexBase = 0,
+  selection: HierarchySelection = {},
+  signal?: AbortSignal
+): Promise<string> {
+  // Ensure file is opened
+  const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
+
+  // Fetch call hierarchy with retry
+  const hierarchy = await withRetry(async () => {
+    return await fetchTwoPhaseHierarchy<
+      CallHierarchyItem,
+      CallHierarchyIncomingCall,
+      CallHierarchyOutgoingCall
+    >(
+      lspClient,
+      'textDocument/prepareCallHierarchy',
+      'callHierarchy/incomingCalls',
+      'callHierarchy/outgoingCalls',
+      uri,
+      position,
+      selection,
+      signal
+    );
+  });
+
+  // Handle no hierarchy available
+  if (!hierarchy) {
+    return JSON.stringify({
+      found: false,
+      message: 'No call hierarchy available at this position'
+    });
+  }
+
+  if (hierarchy.results.length === 0) {
+    return formatNoMatchingOverload(hierarchy.items, selection, formatter);
+  }
+
+  if (format !== 'json') {
+    // Overloads share one diagram, each highlighted as a root
+    const diagram = new DiagramBuilder();
+    const roots: string[] = [];
+    for (const result of hierarchy.results) {
+      const root = diagram.addItem(result.item);
+      roots.push(root);
+      for (const call of result.incoming) {
+        diagram.addEdge(diagram.addItem(call.from), root);
+      }
+      for (const call of result.outgoing) {
+        diagram.addEdge(root, diagram.addItem(call.to));
+      }
+    }
+    return formatDiagram(diagram.build('call_hierarchy', 'LR', roots), format, indexBase);
+  }
+
+  if (hierarchy.results.length === 1) {
+    const [result] = hierarchy.results;
+    return JSON.stringify({
+      found: true,
+      ...await formatCallHierarchy(result, formatter, contextLines),
+      // Which overload this is, when there was a choice
+      ...(hierarchy.items.length > 1 ? { item_index: result.index, overload_count: hierarchy.items.length } : {})
+    }, null, 2);
+  }
+
+  const overloads = [];
+  for (const result of hierarchy.results) {
+    overloads.push({ item_index: result.index, ...await formatCallHierarchy(result, formatter, contextLines) });
+  }
+
+  return JSON.stringify({
+    found: true,
+    overload_count: hierarchy.items.length,
+    overloads
   }, null, 2);
 }
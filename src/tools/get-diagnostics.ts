@@ -6,8 +6,10 @@ import { LSPClient } from '../lsp-client.js';
 import { FileTracker } from '../file-tracker.js';
 import { Diagnostic, DiagnosticSeverity } from '../utils/lsp-types.js';
 import { uriToPath } from '../utils/uri.js';
-import { TimeoutError, withTimeout } from '../utils/errors.js';
+import { CancelledError, TimeoutError, withTimeout } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+import { PositionEncoding } from '../utils/position-encoding.js';
 
 /**
  * Manages a cache of diagnostics received from clangd via publishDiagnostics notifications
@@ -15,13 +17,29 @@ import { logger } from '../utils/logger.js';
 export class DiagnosticsCache {
   private cache: Map<string, Diagnostic[]> = new Map();
   private pendingWaits: Map<string, Array<(diagnostics: Diagnostic[]) => void>> = new Map();
+  private minVersions: Map<string, number> = new Map(); // URI -> oldest document version still current
+  private lspClient: LSPClient;
 
   constructor(lspClient: LSPClient) {
-    // Listen for publishDiagnostics notifications from clangd
+    this.lspClient = lspClient;
+    this.listen(lspClient);
+  }
+
+  /**
+   * Listen for publishDiagnostics notifications from clangd
+   */
+  private listen(lspClient: LSPClient): void {
     lspClient.onNotification('textDocument/publishDiagnostics', (params: any) => {
       const uri = params.uri as string;
       const diagnostics = params.diagnostics as Diagnostic[];
 
+      // Ignore diagnostics computed for content that has since changed
+      const minVersion = this.minVersions.get(uri);
+      if (minVersion !== undefined && typeof params.version === 'number' && params.version < minVersion) {
+        logger.debug(`Ignoring stale diagnostics for ${uri} (version ${params.version} < ${minVersion})`);
+        return;
+      }
+
       logger.debug(`Received diagnostics for ${uri}: ${diagnostics.length} items`);
 
       // Update cache
@@ -38,11 +56,23 @@ export class DiagnosticsCache {
     });
   }
 
+  /**
+   * Switch to the client of a restarted server. Diagnostics from the old
+   * server are dropped; the new one publishes its own as files are reopened.
+   */
+  rebind(lspClient: LSPClient): void {
+    logger.debug(`Clearing ${this.cache.size} cached diagnostics after restart`);
+    this.lspClient = lspClient;
+    this.cache.clear();
+    this.minVersions.clear();
+    this.listen(lspClient);
+  }
+
   /**
    * Get diagnostics for a file URI
    * If force_refresh is true, clears cache and waits for new diagnostics
    */
-  async getDiagnostics(uri: string, forceRefresh: boolean = false): Promise<Diagnostic[]> {
+  async getDiagnostics(uri: string, forceRefresh: boolean = false, signal?: AbortSignal): Promise<Diagnostic[]> {
     if (forceRefresh) {
       logger.info(`Force refresh requested for ${uri}`);
       this.cache.delete(uri);
@@ -54,23 +84,47 @@ export class DiagnosticsCache {
     }
 
     // Otherwise, wait for diagnostics to arrive (file should already be opened)
-    return this.waitForDiagnostics(uri, 5000);
+    return this.waitForDiagnostics(uri, 5000, signal);
+  }
+
+  /**
+   * Encoding of the columns in diagnostic ranges
+   */
+  getPositionEncoding(): PositionEncoding {
+    return this.lspClient.getPositionEncoding();
+  }
+
+  /**
+   * Get the diagnostics currently cached for a file URI without waiting
+   */
+  getCachedDiagnostics(uri: string): Diagnostic[] {
+    return this.cache.get(uri) || [];
   }
 
   /**
    * Wait for diagnostics to be published for a given URI
    */
-  private async waitForDiagnostics(uri: string, timeoutMs: number): Promise<Diagnostic[]> {
+  private async waitForDiagnostics(uri: string, timeoutMs: number, signal?: AbortSignal): Promise<Diagnostic[]> {
     // Check if already cached (race condition)
     if (this.cache.has(uri)) {
       return this.cache.get(uri)!;
     }
 
-    const promise = new Promise<Diagnostic[]>((resolve) => {
+    if (signal?.aborted) {
+      throw new CancelledError(`Wait for diagnostics for ${uri} cancelled`);
+    }
+
+    let onAbort: (() => void) | undefined;
+    const promise = new Promise<Diagnostic[]>((resolve, reject) => {
       // Add to pending waiters
       const waiters = this.pendingWaits.get(uri) || [];
       waiters.push(resolve);
       this.pendingWaits.set(uri, waiters);
+
+      if (signal) {
+        onAbort = () => reject(new CancelledError(`Wait for diagnostics for ${uri} cancelled`));
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
     });
 
     try {
@@ -89,9 +143,24 @@ export class DiagnosticsCache {
         return [];
       }
       throw error;
+    } finally {
+      if (signal && onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
     }
   }
 
+  /**
+   * Drop cached diagnostics for a file whose content changed (called when
+   * FileTracker sends didChange). Pending waiters keep waiting for the
+   * diagnostics of the new version.
+   */
+  invalidate(uri: string, version: number): void {
+    logger.debug(`Invalidating diagnostics cache for ${uri} (version ${version})`);
+    this.cache.delete(uri);
+    this.minVersions.set(uri, version);
+  }
+
   /**
    * Clear diagnostics for a specific file (called when FileTracker evicts)
    */
@@ -99,6 +168,7 @@ export class DiagnosticsCache {
     logger.debug(`Clearing diagnostics cache for ${uri}`);
     this.cache.delete(uri);
     this.pendingWaits.delete(uri);
+    this.minVersions.delete(uri);
   }
 
   /**
@@ -116,13 +186,14 @@ export async function getDiagnostics(
   diagnosticsCache: DiagnosticsCache,
   fileTracker: FileTracker,
   filePath: string,
-  forceRefresh: boolean = false
+  forceRefresh: boolean = false,
+  signal?: AbortSignal
 ): Promise<string> {
   // Ensure file is opened (will trigger diagnostics)
   const uri = await fileTracker.ensureFileOpen(filePath);
 
   // Get diagnostics from cache (or wait for them)
-  const diagnostics = await diagnosticsCache.getDiagnostics(uri, forceRefresh);
+  const diagnostics = await diagnosticsCache.getDiagnostics(uri, forceRefresh, signal);
 
   // Count by severity
   const counts = {
@@ -150,7 +221,8 @@ export async function getDiagnostics(
   }
 
   // Format diagnostics for output
-  const formattedDiagnostics = diagnostics.map(diag => {
+  const formatter = new LocationFormatter(diagnosticsCache.getPositionEncoding());
+  const formattedDiagnostics = await Promise.all(diagnostics.map(async diag => {
     const severityName =
       diag.severity === DiagnosticSeverity.Error ? 'error' :
       diag.severity === DiagnosticSeverity.Warning ? 'warning' :
@@ -158,21 +230,22 @@ export async function getDiagnostics(
       diag.severity === DiagnosticSeverity.Hint ? 'hint' :
       'unknown';
 
+    const range = await formatter.toClientRange(uri, diag.range);
     const formatted: any = {
       severity: severityName,
       message: diag.message,
       location: {
-        line: diag.range.start.line,
-        column: diag.range.start.character
+        line: range.start.line,
+        column: range.start.character
       },
       range: {
         start: {
-          line: diag.range.start.line,
-          column: diag.range.start.character
+          line: range.start.line,
+          column: range.start.character
         },
         end: {
-          line: diag.range.end.line,
-          column: diag.range.end.character
+          line: range.end.line,
+          column: range.end.character
         }
       }
     };
@@ -186,18 +259,17 @@ export async function getDiagnostics(
     }
 
     if (diag.relatedInformation && diag.relatedInformation.length > 0) {
-      formatted.relatedInformation = diag.relatedInformation.map(info => ({
+      formatted.relatedInformation = await Promise.all(diag.relatedInformation.map(async info => ({
         location: {
           file: uriToPath(info.location.uri),
-          line: info.location.range.start.line,
-          column: info.location.range.start.character
+          ...await formatter.position(info.location.uri, info.location.range.start)
         },
         message: info.message
-      }));
+      })));
     }
 
     return formatted;
-  });
+  }));
 
   return JSON.stringify({
     file: filePath,
@@ -5,6 +5,7 @@
 import { LSPClient } from '../lsp-client.js';
 import { FileTracker } from '../file-tracker.js';
 import { withRetry } from '../utils/errors.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
 
 interface HoverResult {
   contents: any;
@@ -19,17 +20,20 @@ export async function getHover(
   fileTracker: FileTracker,
   filePath: string,
   line: number,
-  column: number
+  column: number,
+  signal?: AbortSignal
 ): Promise<string> {
   // Ensure file is opened
   const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
 
   // Make LSP request with retry
   const result: HoverResult | null = await withRetry(async () => {
     return await lspClient.request('textDocument/hover', {
       textDocument: { uri },
-      position: { line, character: column }
-    });
+      position
+    }, { signal });
   });
 
   // Format results
@@ -45,7 +49,7 @@ export async function getHover(
   return JSON.stringify({
     found: true,
     contents,
-    range: result.range
+    range: result.range && await formatter.toClientRange(uri, result.range)
   }, null, 2);
 }
 
@@ -7,20 +7,71 @@ import { FileTracker } from '../file-tracker.js';
 import { uriToPath } from '../utils/uri.js';
 import { withRetry } from '../utils/errors.js';
 import { TypeHierarchyItem, symbolKindNames } from '../utils/lsp-types.js';
-import { fetchTwoPhaseHierarchy } from '../utils/hierarchy-helper.js';
+import {
+  HierarchyResult,
+  HierarchySelection,
+  fetchTwoPhaseHierarchy,
+  formatNoMatchingOverload
+} from '../utils/hierarchy-helper.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+import { DiagramBuilder, OutputFormat, formatDiagram } from '../utils/diagram.js';
+import { IndexBase } from '../utils/index-base.js';
+
+type TypeHierarchyResult = HierarchyResult<TypeHierarchyItem, TypeHierarchyItem, TypeHierarchyItem>;
+
+/**
+ * Format one item's supertypes and subtypes
+ */
+async function formatTypeHierarchy(
+  result: TypeHierarchyResult,
+  formatter: LocationFormatter,
+  contextLines?: number
+): Promise<any> {
+  const formatType = async (type: TypeHierarchyItem) => ({
+    name: type.name,
+    kind: symbolKindNames[type.kind] || `Unknown(${type.kind})`,
+    location: {
+      file: uriToPath(type.uri),
+      ...await formatter.position(type.uri, type.selectionRange.start),
+      context: await formatter.context(type.uri, type.selectionRange, contextLines)
+    }
+  });
+
+  // Format the main type
+  const mainType = { ...await formatType(result.item), detail: result.item.detail };
+
+  // Format supertypes (base classes) and subtypes (derived classes)
+  const supertypes = await Promise.all(result.incoming.map(formatType));
+  const subtypes = await Promise.all(result.outgoing.map(formatType));
+
+  return {
+    type: mainType,
+    supertypes: supertypes,
+    supertypes_count: supertypes.length,
+    subtypes: subtypes,
+    subtypes_count: subtypes.length
+  };
+}
 
 export async function getTypeHierarchy(
   lspClient: LSPClient,
   fileTracker: FileTracker,
   filePath: string,
   line: number,
-  column: number
+  column: number,
+  contextLines?: number,
+  format: OutputFormat = 'json',
+  indexBase: IndexBase = 0,
+  selection: HierarchySelection = {},
+  signal?: AbortSignal
 ): Promise<string> {
   // Ensure file is opened
   const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
 
   // Fetch type hierarchy with retry
-  const result = await withRetry(async () => {
+  const hierarchy = await withRetry(async () => {
     return await fetchTwoPhaseHierarchy<
       TypeHierarchyItem,
       TypeHierarchyItem,
@@ -31,64 +82,59 @@ export async function getTypeHierarchy(
       'typeHierarchy/supertypes',
       'typeHierarchy/subtypes',
       uri,
-      { line, character: column }
+      position,
+      selection,
+      signal
     );
   });
 
   // Handle no hierarchy available
-  if (!result) {
+  if (!hierarchy) {
     return JSON.stringify({
       found: false,
       message: 'No type hierarchy available at this position'
     });
   }
 
-  // Format the main type
-  const symbolKind = symbolKindNames[result.item.kind] || `Unknown(${result.item.kind})`;
-  const mainType = {
-    name: result.item.name,
-    kind: symbolKind,
-    location: {
-      file: uriToPath(result.item.uri),
-      line: result.item.selectionRange.start.line,
-      column: result.item.selectionRange.start.character
-    }
-  };
+  if (hierarchy.results.length === 0) {
+    return formatNoMatchingOverload(hierarchy.items, selection, formatter);
+  }
 
-  // Format supertypes (base classes)
-  const supertypes = result.incoming.map((supertype: TypeHierarchyItem) => {
-    const supertypeKind = symbolKindNames[supertype.kind] || `Unknown(${supertype.kind})`;
-    return {
-      name: supertype.name,
-      kind: supertypeKind,
-      location: {
-        file: uriToPath(supertype.uri),
-        line: supertype.selectionRange.start.line,
-        column: supertype.selectionRange.start.character
+  // Inheritance arrows point from the derived type to its base
+  if (format !== 'json') {
+    const diagram = new DiagramBuilder();
+    const roots: string[] = [];
+    for (const result of hierarchy.results) {
+      const root = diagram.addItem(result.item);
+      roots.push(root);
+      for (const supertype of result.incoming) {
+        diagram.addEdge(root, diagram.addItem(supertype));
       }
-    };
-  });
-
-  // Format subtypes (derived classes)
-  const subtypes = result.outgoing.map((subtype: TypeHierarchyItem) => {
-    const subtypeKind = symbolKindNames[subtype.kind] || `Unknown(${subtype.kind})`;
-    return {
-      name: subtype.name,
-      kind: subtypeKind,
-      location: {
-        file: uriToPath(subtype.uri),
-        line: subtype.selectionRange.start.line,
-        column: subtype.selectionRange.start.character
+      for (const subtype of result.outgoing) {
+        diagram.addEdge(diagram.addItem(subtype), root);
       }
-    };
-  });
+    }
+    return formatDiagram(diagram.build('type_hierarchy', 'BT', roots), format, indexBase);
+  }
+
+  if (hierarchy.results.length === 1) {
+    const [result] = hierarchy.results;
+    return JSON.stringify({
+      found: true,
+      ...await formatTypeHierarchy(result, formatter, contextLines),
+      // Which item this is, when there was a choice
+      ...(hierarchy.items.length > 1 ? { item_index: result.index, overload_count: hierarchy.items.length } : {})
+    }, null, 2);
+  }
+
+  const overloads = [];
+  for (const result of hierarchy.results) {
+    overloads.push({ item_index: result.index, ...await formatTypeHierarchy(result, formatter, contextLines) });
+  }
 
   return JSON.stringify({
     found: true,
-    type: mainType,
-    supertypes: supertypes,
-    supertypes_count: supertypes.length,
-    subtypes: subtypes,
-    subtypes_count: subtypes.length
+    overload_count: hierarchy.items.length,
+    overloads
   }, null, 2);
 }
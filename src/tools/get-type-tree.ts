@@ -0,0 +1,291 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LSPClient } from '../lsp-client.js';
+import { FileTracker } from '../file-tracker.js';
+import { uriToPath } from '../utils/uri.js';
+import { CancelledError, withRetry } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { TypeHierarchyItem, symbolKindNames } from '../utils/lsp-types.js';
+import { DiagramBuilder, OutputFormat, formatDiagram } from '../utils/diagram.js';
+import { IndexBase } from '../utils/index-base.js';
+import {
+  HierarchySelection,
+  formatNoMatchingOverload,
+  prepareHierarchy,
+  selectHierarchyItems
+} from '../utils/hierarchy-helper.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+
+export type TypeTreeDirection = 'supertypes' | 'subtypes' | 'both';
+
+/**
+ * A type in the tree. A type reached along more than one path (diamond
+ * inheritance) is expanded once; later occurrences are marked as repeats.
+ */
+export interface TypeTreeNode {
+  id: string;
+  item: TypeHierarchyItem;
+  supertypes: TypeTreeNode[];
+  subtypes: TypeTreeNode[];
+  /** Whether its supertypes or subtypes were queried */
+  expanded: boolean;
+  /** Set on every occurrence of a type reached along several paths */
+  diamond?: boolean;
+  /** Set on occurrences after the first; their relatives are under the first */
+  repeated?: boolean;
+}
+
+export interface TypeTreeLimits {
+  maxDepth: number;
+  maxNodes: number;
+}
+
+export interface TypeTree {
+  root: TypeTreeNode;
+  nodeCount: number;
+  /** Set when max_nodes stopped the walk before it was complete */
+  truncated: boolean;
+}
+
+function itemKey(item: TypeHierarchyItem): string {
+  return `${item.uri}:${item.selectionRange.start.line}:${item.selectionRange.start.character}`;
+}
+
+/**
+ * Query the direct supertypes or subtypes of an item. A failure is logged
+ * and treated as having none.
+ */
+async function fetchRelatives(
+  lspClient: LSPClient,
+  item: TypeHierarchyItem,
+  direction: 'supertypes' | 'subtypes',
+  signal?: AbortSignal
+): Promise<TypeHierarchyItem[]> {
+  try {
+    return await withRetry(async () =>
+      (await lspClient.request(`typeHierarchy/${direction}`, { item }, { signal })) || []
+    );
+  } catch (error) {
+    if (error instanceof CancelledError) {
+      throw error;
+    }
+    logger.warn(`typeHierarchy/${direction} failed for ${item.name}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Build the inheritance tree around an item: supertypes up towards the
+ * roots and subtypes down towards the leaves, breadth-first within maxDepth
+ * levels in each direction and maxNodes types overall.
+ */
+export async function buildTypeTree(
+  lspClient: LSPClient,
+  rootItem: TypeHierarchyItem,
+  direction: TypeTreeDirection,
+  limits: TypeTreeLimits,
+  signal?: AbortSignal
+): Promise<TypeTree> {
+  const root: TypeTreeNode = { id: 't0', item: rootItem, supertypes: [], subtypes: [], expanded: false };
+  let nodeCount = 1;
+  let truncated = false;
+
+  const walk = async (relation: 'supertypes' | 'subtypes') => {
+    const seen = new Map<string, TypeTreeNode>([[itemKey(rootItem), root]]);
+
+    let frontier = [root];
+    for (let depth = 0; depth < limits.maxDepth && frontier.length > 0; depth++) {
+      const next: TypeTreeNode[] = [];
+
+      for (const node of frontier) {
+        const relatives = await fetchRelatives(lspClient, node.item, relation, signal);
+        node.expanded = true;
+
+        for (const item of relatives) {
+          const first = seen.get(itemKey(item));
+          if (first) {
+            first.diamond = true;
+            node[relation].push({
+              id: first.id,
+              item,
+              supertypes: [],
+              subtypes: [],
+              expanded: false,
+              diamond: true,
+              repeated: true
+            });
+            continue;
+          }
+
+          if (nodeCount >= limits.maxNodes) {
+            truncated = true;
+            break;
+          }
+
+          const child: TypeTreeNode = {
+            id: `t${nodeCount++}`,
+            item,
+            supertypes: [],
+            subtypes: [],
+            expanded: false
+          };
+          seen.set(itemKey(item), child);
+          node[relation].push(child);
+          next.push(child);
+        }
+      }
+
+      frontier = next;
+    }
+  };
+
+  if (direction !== 'subtypes') {
+    await walk('supertypes');
+  }
+  if (direction !== 'supertypes') {
+    await walk('subtypes');
+  }
+
+  return { root, nodeCount, truncated };
+}
+
+async function formatNode(
+  node: TypeTreeNode,
+  relation: 'supertypes' | 'subtypes' | null,
+  formatter: LocationFormatter
+): Promise<any> {
+  const formatted: any = {
+    id: node.id,
+    name: node.item.name,
+    kind: symbolKindNames[node.item.kind] || `Unknown(${node.item.kind})`,
+    detail: node.item.detail,
+    file: uriToPath(node.item.uri),
+    ...await formatter.position(node.item.uri, node.item.selectionRange.start),
+    diamond: node.diamond,
+    repeated: node.repeated
+  };
+
+  if (!node.repeated) {
+    formatted.expanded = node.expanded;
+    if (relation !== 'subtypes') {
+      formatted.supertypes = await Promise.all(
+        node.supertypes.map(child => formatNode(child, 'supertypes', formatter))
+      );
+    }
+    if (relation !== 'supertypes') {
+      formatted.subtypes = await Promise.all(
+        node.subtypes.map(child => formatNode(child, 'subtypes', formatter))
+      );
+    }
+  }
+
+  return formatted;
+}
+
+function renderTrees(trees: TypeTree[], format: Exclude<OutputFormat, 'json'>, indexBase: IndexBase): string {
+  const diagram = new DiagramBuilder();
+
+  // Inheritance arrows point from the derived type to its base. Repeated
+  // types map to the same diagram node, which draws the diamond.
+  const addRelatives = (node: TypeTreeNode, id: string) => {
+    for (const base of node.supertypes) {
+      const baseId = diagram.addItem(base.item);
+      diagram.addEdge(id, baseId);
+      addRelatives(base, baseId);
+    }
+    for (const derived of node.subtypes) {
+      const derivedId = diagram.addItem(derived.item);
+      diagram.addEdge(derivedId, id);
+      addRelatives(derived, derivedId);
+    }
+  };
+
+  const roots: string[] = [];
+  for (const tree of trees) {
+    const root = diagram.addItem(tree.root.item);
+    roots.push(root);
+    addRelatives(tree.root, root);
+  }
+
+  return formatDiagram(diagram.build('type_tree', 'BT', roots), format, indexBase);
+}
+
+export async function getTypeTree(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  filePath: string,
+  line: number,
+  column: number,
+  direction: TypeTreeDirection = 'both',
+  limits: TypeTreeLimits = { maxDepth: 5, maxNodes: 200 },
+  format: OutputFormat = 'json',
+  indexBase: IndexBase = 0,
+  selection: HierarchySelection = {},
+  signal?: AbortSignal
+): Promise<string> {
+  // Ensure file is opened
+  const uri = await fileTracker.ensureFileOpen(filePath);
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const position = await formatter.toServer(uri, { line, character: column });
+
+  const items = await withRetry(async () => {
+    return await prepareHierarchy<TypeHierarchyItem>(
+      lspClient,
+      'textDocument/prepareTypeHierarchy',
+      uri,
+      position,
+      signal
+    );
+  });
+
+  if (items.length === 0) {
+    return JSON.stringify({
+      found: false,
+      message: 'No type hierarchy available at this position'
+    });
+  }
+
+  const selected = selectHierarchyItems(items, selection);
+  if (selected.length === 0) {
+    return formatNoMatchingOverload(items, selection, formatter);
+  }
+
+  // Each item gets its own tree and limits
+  const trees: Array<{ index: number; tree: TypeTree }> = [];
+  for (const { index, item } of selected) {
+    trees.push({ index, tree: await buildTypeTree(lspClient, item, direction, limits, signal) });
+  }
+
+  if (format !== 'json') {
+    return renderTrees(trees.map(({ tree }) => tree), format, indexBase);
+  }
+
+  const formatTree = async (tree: TypeTree) => ({
+    direction,
+    max_depth: limits.maxDepth,
+    node_count: tree.nodeCount,
+    truncated: tree.truncated,
+    tree: await formatNode(tree.root, direction === 'both' ? null : direction, formatter)
+  });
+
+  if (trees.length === 1) {
+    const [{ index, tree }] = trees;
+    return JSON.stringify({
+      found: true,
+      ...await formatTree(tree),
+      // Which item this is, when there was a choice
+      ...(items.length > 1 ? { item_index: index, overload_count: items.length } : {})
+    }, null, 2);
+  }
+
+  return JSON.stringify({
+    found: true,
+    overload_count: items.length,
+    overloads: await Promise.all(trees.map(async ({ index, tree }) => ({
+      item_index: index,
+      ...await formatTree(tree)
+    })))
+  }, null, 2);
+}
@@ -0,0 +1,51 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { ClangdManager } from '../clangd-manager.js';
+import { IndexStatus } from '../progress-tracker.js';
+
+/**
+ * Format a server's indexing state for tool output
+ */
+export function formatIndexStatus(server: string, status: IndexStatus): any {
+  return {
+    server,
+    indexing: status.indexing,
+    percentage: status.percentage,
+    message: status.message,
+    last_completed: status.lastCompletedAt !== undefined
+      ? new Date(status.lastCompletedAt).toISOString()
+      : undefined
+  };
+}
+
+/**
+ * Report background indexing progress of the running language servers.
+ * Servers are not started for this; one that is not running has no index yet.
+ */
+export function getIndexStatus(servers: Array<{ name: string; manager: ClangdManager }>): string {
+  if (servers.length === 0) {
+    return JSON.stringify({
+      indexing: false,
+      servers: [],
+      message: 'No language server is running yet; one starts on the first query'
+    }, null, 2);
+  }
+
+  const formatted = servers.map(({ name, manager }) => ({
+    ...formatIndexStatus(name, manager.getIndexStatus()),
+    operations: manager.getProgressOperations().map(operation => ({
+      token: operation.token,
+      title: operation.title,
+      message: operation.message,
+      percentage: operation.percentage,
+      running_ms: Date.now() - operation.startedAt
+    }))
+  }));
+
+  return JSON.stringify({
+    indexing: formatted.some(server => server.indexing),
+    servers: formatted
+  }, null, 2);
+}
@@ -0,0 +1,119 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LSPClient } from '../lsp-client.js';
+import { FileTracker } from '../file-tracker.js';
+import { CancelledError, LSPError, withRetry } from '../utils/errors.js';
+import { Range, WorkspaceEdit } from '../utils/lsp-types.js';
+import { previewWorkspaceEdit, applyWorkspaceEdit } from '../utils/workspace-edit.js';
+import { logger } from '../utils/logger.js';
+import { FileAccessCheck } from '../utils/path-policy.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
+
+type PrepareRenameResult =
+  | Range
+  | { range: Range; placeholder: string }
+  | { defaultBehavior: boolean }
+  | null;
+
+export async function renameSymbol(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  filePath: string,
+  line: number,
+  column: number,
+  newName: string,
+  apply: boolean = false,
+  signal?: AbortSignal,
+  checkAccess?: FileAccessCheck
+): Promise<string> {
+  // Ensure file is opened
+  const uri = await fileTracker.ensureFileOpen(filePath);
+  const encoding = lspClient.getPositionEncoding();
+  const position = await new LocationFormatter(encoding).toServer(uri, { line, character: column });
+
+  // Check that the symbol can be renamed
+  let prepared: PrepareRenameResult;
+  try {
+    prepared = await lspClient.request('textDocument/prepareRename', {
+      textDocument: { uri },
+      position
+    }, { signal });
+  } catch (error) {
+    if (error instanceof LSPError && error.code === -32601) {
+      // Server does not support prepareRename, go straight to rename
+      logger.debug('prepareRename not supported, skipping');
+      prepared = { defaultBehavior: true };
+    } else if (error instanceof LSPError) {
+      return JSON.stringify({
+        success: false,
+        message: `Cannot rename symbol: ${error.message}`
+      });
+    } else {
+      throw error;
+    }
+  }
+
+  if (!prepared) {
+    return JSON.stringify({
+      success: false,
+      message: 'No renameable symbol at this position'
+    });
+  }
+
+  const oldName = 'placeholder' in prepared ? prepared.placeholder : undefined;
+
+  // Make LSP request with retry
+  let edit: WorkspaceEdit | null;
+  try {
+    edit = await withRetry(async () => {
+      return await lspClient.request('textDocument/rename', {
+        textDocument: { uri },
+        position,
+        newName
+      }, { signal });
+    });
+  } catch (error) {
+    if (error instanceof LSPError) {
+      return JSON.stringify({
+        success: false,
+        message: `Rename failed: ${error.message}`
+      });
+    }
+    throw error;
+  }
+
+  if (!edit) {
+    return JSON.stringify({
+      success: false,
+      message: 'Rename produced no edits'
+    });
+  }
+
+  const files = await previewWorkspaceEdit(edit, encoding, checkAccess);
+  const editCount = files.reduce((total, file) => total + file.edits.length, 0);
+
+  if (apply) {
+    // Do not touch the disk for a call that was cancelled meanwhile
+    if (signal?.aborted) {
+      throw new CancelledError('Rename cancelled');
+    }
+    const modified = await applyWorkspaceEdit(edit, encoding, checkAccess);
+
+    // Send the new content of modified files that are open
+    for (const file of modified) {
+      await fileTracker.refreshFile(file);
+    }
+  }
+
+  return JSON.stringify({
+    success: true,
+    old_name: oldName,
+    new_name: newName,
+    applied: apply,
+    file_count: files.length,
+    edit_count: editCount,
+    files
+  }, null, 2);
+}
@@ -0,0 +1,26 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LanguageServerRegistry } from '../server-registry.js';
+import { formatCrash } from '../clangd-manager.js';
+import { uriToPath } from '../utils/uri.js';
+
+/**
+ * Tool implementation for restart_clangd: restart a language server, e.g.
+ * one given up on after crashing repeatedly, and report its crash history
+ */
+export async function restartClangd(registry: LanguageServerRegistry, server: string): Promise<string> {
+  const session = await registry.restartServer(server);
+
+  // Reported here rather than on the next tool response
+  const reopenedFiles = session.restart?.reopenedFiles ?? [];
+  session.restart = undefined;
+
+  return JSON.stringify({
+    restarted: true,
+    server: session.name,
+    reopened_files: reopenedFiles.map(uriToPath),
+    crashes: session.manager.getCrashHistory().map(formatCrash)
+  }, null, 2);
+}
@@ -0,0 +1,58 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LanguageServerSession } from '../server-registry.js';
+import { formatCrash } from '../clangd-manager.js';
+import { MemorySample } from '../memory-monitor.js';
+
+/**
+ * Bytes to megabytes for tool output
+ */
+function toMb(bytes: number | undefined): number | undefined {
+  return bytes === undefined ? undefined : Math.round(bytes / (1024 * 1024));
+}
+
+function formatMemory(sample: MemorySample | undefined, limitBytes: number): any {
+  return {
+    rss_mb: toMb(sample?.rssBytes),
+    server_reported_mb: toMb(sample?.serverBytes),
+    components_mb: sample?.components
+      ? Object.fromEntries(Object.entries(sample.components).map(([name, bytes]) => [name, toMb(bytes)]))
+      : undefined,
+    limit_mb: limitBytes > 0 ? toMb(limitBytes) : undefined,
+    sampled_at: sample ? new Date(sample.time).toISOString() : undefined
+  };
+}
+
+/**
+ * Tool implementation for server_status: process, memory and crash state of
+ * the language servers started so far. Servers are not started for this.
+ */
+export async function getServerStatus(sessions: LanguageServerSession[]): Promise<string> {
+  if (sessions.length === 0) {
+    return JSON.stringify({
+      servers: [],
+      message: 'No language server is running yet; one starts on the first query'
+    }, null, 2);
+  }
+
+  const servers = await Promise.all(sessions.map(async ({ name, manager, fileTracker }) => {
+    const startedAt = manager.getStartedAt();
+    const crashes = manager.getCrashHistory();
+    const state = manager.hasGivenUp() ? 'down' : manager.isReady() ? 'running' : 'restarting';
+
+    return {
+      server: name,
+      state,
+      pid: manager.getPid(),
+      uptime_s: startedAt !== undefined ? Math.round((Date.now() - startedAt) / 1000) : undefined,
+      open_files: fileTracker.getOpenFiles().size,
+      memory: formatMemory(state === 'running' ? await manager.sampleMemory() : undefined, manager.getMemoryLimit()),
+      crash_count: crashes.length,
+      last_crash: crashes.length > 0 ? formatCrash(crashes[crashes.length - 1]) : undefined
+    };
+  }));
+
+  return JSON.stringify({ servers }, null, 2);
+}
@@ -5,33 +5,52 @@
 import { LSPClient } from '../lsp-client.js';
 import { uriToPath } from '../utils/uri.js';
 import { withRetry } from '../utils/errors.js';
-import { symbolKindNames } from '../utils/lsp-types.js';
-
-interface SymbolInformation {
-  name: string;
-  kind: number;
-  location: {
-    uri: string;
-    range: {
-      start: { line: number; character: number };
-      end: { line: number; character: number };
-    };
-  };
-  containerName?: string;
-}
+import { SymbolInformation, symbolKindNames } from '../utils/lsp-types.js';
+import { logger } from '../utils/logger.js';
+import { SourceContextReader } from '../utils/source-context.js';
+import { LocationFormatter } from '../utils/location-formatter.js';
 
+/**
+ * Search symbols across the workspace. When several language servers are
+ * given, they are queried in parallel and their results merged.
+ */
 export async function workspaceSymbolSearch(
-  lspClient: LSPClient,
+  lspClient: LSPClient | LSPClient[],
   query: string,
-  limit: number = 100
+  limit: number = 100,
+  contextLines?: number,
+  signal?: AbortSignal
 ): Promise<string> {
-  // Make LSP request with retry
-  const symbols: SymbolInformation[] = await withRetry(async () => {
-    const result = await lspClient.request('workspace/symbol', {
-      query
-    });
+  const clients = Array.isArray(lspClient) ? lspClient : [lspClient];
+
+  const results = await Promise.allSettled(clients.map(client =>
+    // Make LSP request with retry
+    withRetry(async () => {
+      const result = await client.request('workspace/symbol', {
+        query
+      }, { signal });
+
+      return (result || []) as SymbolInformation[];
+    })
+  ));
+
+  // A single failing server should not hide the others' results
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failures.length === results.length) {
+    throw failures[0].reason;
+  }
+  for (const failure of failures) {
+    logger.warn('workspace/symbol failed on one server:', failure.reason);
+  }
 
-    return result || [];
+  // Each server's positions are in the encoding it negotiated
+  const reader = new SourceContextReader();
+  const symbols = results.flatMap((result, index) => {
+    if (result.status === 'rejected') {
+      return [];
+    }
+    const formatter = new LocationFormatter(clients[index].getPositionEncoding(), undefined, reader);
+    return result.value.map(sym => ({ sym, formatter }));
   });
 
   // Format results
@@ -45,15 +64,15 @@ export async function workspaceSymbolSearch(
   // Apply limit
   const limitedSymbols = symbols.slice(0, limit);
 
-  const formattedSymbols = limitedSymbols.map(sym => ({
+  const formattedSymbols = await Promise.all(limitedSymbols.map(async ({ sym, formatter }) => ({
     name: sym.name,
     kind: symbolKindNames[sym.kind] || `Unknown(${sym.kind})`,
     file: uriToPath(sym.location.uri),
-    line: sym.location.range.start.line,
-    column: sym.location.range.start.character,
+    ...await formatter.position(sym.location.uri, sym.location.range.start),
     container: sym.containerName,
-    uri: sym.location.uri
-  }));
+    uri: sym.location.uri,
+    context: await formatter.context(sym.location.uri, sym.location.range, contextLines)
+  })));
 
   return JSON.stringify({
     found: true,
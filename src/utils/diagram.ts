@@ -0,0 +1,189 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { uriToPath } from './uri.js';
+import { Range, symbolKindNames } from './lsp-types.js';
+import { IndexBase } from './index-base.js';
+
+/**
+ * Output format of the hierarchy tools: structured JSON, or diagram text
+ */
+export type OutputFormat = 'json' | 'mermaid' | 'dot';
+
+export const outputFormats: OutputFormat[] = ['json', 'mermaid', 'dot'];
+
+/**
+ * The parts of a call or type hierarchy item a diagram needs
+ */
+export interface DiagramItem {
+  name: string;
+  kind: number;
+  detail?: string;
+  uri: string;
+  selectionRange: Range;
+}
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  kind: string;
+  uri: string;
+  file: string;
+  line: number;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  /** Drawn dashed, e.g. for edges that close a cycle */
+  dashed?: boolean;
+}
+
+export interface Diagram {
+  name: string;
+  /** Layout direction: left-to-right for calls, bottom-to-top for inheritance */
+  direction: 'LR' | 'BT';
+  /** Highlighted nodes: the queried symbol, or one per overload */
+  roots: string[];
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+/**
+ * Qualified name of an item. clangd reports it as the detail; other servers
+ * use detail for signatures, so it is only trusted when it ends with the name.
+ */
+export function qualifiedName(item: DiagramItem): string {
+  return item.detail && item.detail !== item.name && item.detail.endsWith(`::${item.name}`)
+    ? item.detail
+    : item.name;
+}
+
+/**
+ * Collects hierarchy items into diagram nodes, one per symbol position,
+ * and the edges between them
+ */
+export class DiagramBuilder {
+  private nodes: Map<string, DiagramNode> = new Map();
+  private edges: DiagramEdge[] = [];
+  private edgeKeys: Set<string> = new Set();
+
+  addItem(item: DiagramItem): string {
+    const key = `${item.uri}:${item.selectionRange.start.line}:${item.selectionRange.start.character}`;
+    let node = this.nodes.get(key);
+    if (!node) {
+      node = {
+        id: `n${this.nodes.size}`,
+        label: qualifiedName(item),
+        kind: symbolKindNames[item.kind] || `Unknown(${item.kind})`,
+        uri: item.uri,
+        file: uriToPath(item.uri),
+        line: item.selectionRange.start.line
+      };
+      this.nodes.set(key, node);
+    }
+    return node.id;
+  }
+
+  addEdge(from: string, to: string, dashed?: boolean): void {
+    const key = `${from}->${to}`;
+    if (!this.edgeKeys.has(key)) {
+      this.edgeKeys.add(key);
+      this.edges.push({ from, to, dashed });
+    }
+  }
+
+  build(name: string, direction: 'LR' | 'BT', roots: string | string[] = []): Diagram {
+    return {
+      name,
+      direction,
+      roots: Array.isArray(roots) ? roots : [roots],
+      nodes: [...this.nodes.values()],
+      edges: this.edges
+    };
+  }
+}
+
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;');
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * The node's location as file:line, with the line numbered from the index
+ * base like the lines in JSON results
+ */
+function fileLine(node: DiagramNode, indexBase: IndexBase): string {
+  return `${node.file}:${node.line + indexBase}`;
+}
+
+/**
+ * Render a diagram as a Mermaid flowchart
+ */
+export function renderMermaid(diagram: Diagram, indexBase: IndexBase = 0): string {
+  const lines = [`graph ${diagram.direction}`];
+
+  for (const node of diagram.nodes) {
+    lines.push(`  ${node.id}["${escapeMermaid(node.label)}<br/><i>${node.kind}</i>"]`);
+  }
+  for (const edge of diagram.edges) {
+    lines.push(`  ${edge.from} ${edge.dashed ? '-.->' : '-->'} ${edge.to}`);
+  }
+  for (const node of diagram.nodes) {
+    lines.push(`  click ${node.id} href "${escapeMermaid(node.uri)}" "${escapeMermaid(fileLine(node, indexBase))}"`);
+  }
+  for (const root of diagram.roots) {
+    lines.push(`  style ${root} stroke-width:3px`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a diagram as a Graphviz DOT digraph
+ */
+export function renderDot(diagram: Diagram, indexBase: IndexBase = 0): string {
+  const lines = [
+    `digraph ${diagram.name} {`,
+    `  rankdir=${diagram.direction};`,
+    '  node [shape=box, fontname="Helvetica"];'
+  ];
+
+  for (const node of diagram.nodes) {
+    const attributes = [
+      `label="${escapeDot(node.label)}\\n(${node.kind})"`,
+      `tooltip="${escapeDot(fileLine(node, indexBase))}"`
+    ];
+    if (diagram.roots.includes(node.id)) {
+      attributes.push('penwidth=2');
+    }
+    lines.push(`  ${node.id} [${attributes.join(', ')}];`);
+  }
+  for (const edge of diagram.edges) {
+    lines.push(`  ${edge.from} -> ${edge.to}${edge.dashed ? ' [style=dashed]' : ''};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a diagram in one of the diagram formats as a tool result
+ */
+export function formatDiagram(
+  diagram: Diagram,
+  format: Exclude<OutputFormat, 'json'>,
+  indexBase: IndexBase = 0
+): string {
+  return JSON.stringify({
+    found: true,
+    format,
+    node_count: diagram.nodes.length,
+    edge_count: diagram.edges.length,
+    diagram: format === 'mermaid' ? renderMermaid(diagram, indexBase) : renderDot(diagram, indexBase)
+  }, null, 2);
+}
@@ -11,6 +11,26 @@ export class TimeoutError extends Error {
   }
 }
 
+/**
+ * The caller gave up on an operation, e.g. the MCP client cancelled the tool call
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * A tool argument names a file outside the directories the server may read
+ */
+export class PathAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
 export class ClangdError extends Error {
   constructor(message: string, public code?: number) {
     super(message);
@@ -18,6 +38,17 @@ export class ClangdError extends Error {
   }
 }
 
+/**
+ * A language server crashed too often and is no longer restarted
+ * automatically. details describes the crashes for the tool response.
+ */
+export class ServerDownError extends ClangdError {
+  constructor(message: string, public details: Record<string, unknown>) {
+    super(message);
+    this.name = 'ServerDownError';
+  }
+}
+
 export class LSPError extends Error {
   constructor(message: string, public code?: number, public data?: any) {
     super(message);
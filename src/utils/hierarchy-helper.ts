@@ -3,67 +3,195 @@
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
 import { LSPClient } from '../lsp-client.js';
-import { Position } from './lsp-types.js';
+import { Position, Range, symbolKindNames } from './lsp-types.js';
+import { uriToPath } from './uri.js';
 import { logger } from './logger.js';
+import { CancelledError } from './errors.js';
+import { LocationFormatter } from './location-formatter.js';
+
+/**
+ * The fields of a call or type hierarchy item used to tell overloads apart
+ */
+export interface HierarchyItem {
+  name: string;
+  kind: number;
+  detail?: string;
+  uri: string;
+  selectionRange: Range;
+}
+
+/**
+ * Which of several prepared items (overloads, template specializations) to
+ * query. With neither field set, every item is queried.
+ */
+export interface HierarchySelection {
+  itemIndex?: number;
+  /** Matched against each item's detail, ignoring whitespace */
+  signature?: string;
+}
 
 /**
  * Generic result for two-phase hierarchy protocols (call/type hierarchy)
  */
 export interface HierarchyResult<TItem, TIncoming, TOutgoing> {
+  /** Index of the item among the prepared items */
+  index: number;
   item: TItem;
   incoming: TIncoming[];
   outgoing: TOutgoing[];
 }
 
+/**
+ * All items the prepare phase returned, and the relationships of the
+ * selected ones. results is empty when the selection matched no item.
+ */
+export interface HierarchyResults<TItem, TIncoming, TOutgoing> {
+  items: TItem[];
+  results: HierarchyResult<TItem, TIncoming, TOutgoing>[];
+}
+
+/**
+ * Phase 1 of the hierarchy protocols: get the hierarchy item(s) at a
+ * position. Servers return several for overloaded functions and templates.
+ */
+export async function prepareHierarchy<TItem>(
+  lspClient: LSPClient,
+  prepareMethod: string,
+  uri: string,
+  position: Position,
+  signal?: AbortSignal
+): Promise<TItem[]> {
+  const items = await lspClient.request(prepareMethod, {
+    textDocument: { uri },
+    position
+  }, { signal });
+
+  if (!items) {
+    return [];
+  }
+  return Array.isArray(items) ? items : [items];
+}
+
+function normalizeSignature(signature: string): string {
+  return signature.replace(/\s+/g, '');
+}
+
+/**
+ * Pick the prepared items to query, keeping their indices. A signature
+ * matches an item whose detail (or name, when it has none) contains it.
+ */
+export function selectHierarchyItems<TItem extends HierarchyItem>(
+  items: TItem[],
+  selection: HierarchySelection = {}
+): Array<{ index: number; item: TItem }> {
+  const indexed = items.map((item, index) => ({ index, item }));
+
+  if (selection.itemIndex !== undefined) {
+    return indexed.filter(({ index }) => index === selection.itemIndex);
+  }
+  if (selection.signature !== undefined) {
+    const wanted = normalizeSignature(selection.signature);
+    return indexed.filter(({ item }) => normalizeSignature(item.detail ?? item.name).includes(wanted));
+  }
+  return indexed;
+}
+
+/**
+ * Describe a prepared item so the caller can pick it with item_index or
+ * signature
+ */
+export async function formatHierarchyOverload(
+  item: HierarchyItem,
+  index: number,
+  formatter: LocationFormatter = new LocationFormatter()
+): Promise<any> {
+  return {
+    item_index: index,
+    name: item.name,
+    kind: symbolKindNames[item.kind] || `Unknown(${item.kind})`,
+    detail: item.detail,
+    file: uriToPath(item.uri),
+    ...await formatter.position(item.uri, item.selectionRange.start)
+  };
+}
+
+/**
+ * Result for a selection that matched none of the prepared items
+ */
+export async function formatNoMatchingOverload(
+  items: HierarchyItem[],
+  selection: HierarchySelection,
+  formatter: LocationFormatter = new LocationFormatter()
+): Promise<string> {
+  const wanted = selection.itemIndex !== undefined
+    ? `item_index ${selection.itemIndex}`
+    : `signature "${selection.signature}"`;
+
+  return JSON.stringify({
+    found: false,
+    message: `No hierarchy item matches ${wanted}; ${items.length} available`,
+    overloads: await Promise.all(items.map((item, index) => formatHierarchyOverload(item, index, formatter)))
+  }, null, 2);
+}
+
 /**
  * Fetch hierarchy using the two-phase LSP protocol pattern:
  * 1. Prepare: Get the hierarchy item(s) at the position
- * 2. Query: Get incoming/outgoing relationships in parallel
+ * 2. Query: Get incoming/outgoing relationships of each selected item in parallel
  *
  * This helper abstracts the common pattern used by both call hierarchy and type hierarchy
  */
-export async function fetchTwoPhaseHierarchy<TItem, TIncoming, TOutgoing>(
+export async function fetchTwoPhaseHierarchy<TItem extends HierarchyItem, TIncoming, TOutgoing>(
   lspClient: LSPClient,
   prepareMethod: string,
   incomingMethod: string,
   outgoingMethod: string,
   uri: string,
-  position: Position
-): Promise<HierarchyResult<TItem, TIncoming, TOutgoing> | null> {
+  position: Position,
+  selection: HierarchySelection = {},
+  signal?: AbortSignal
+): Promise<HierarchyResults<TItem, TIncoming, TOutgoing> | null> {
   logger.debug(`Fetching hierarchy for ${uri} at ${position.line}:${position.character}`);
 
   // Phase 1: Prepare - Get hierarchy item(s) at position
-  const items = await lspClient.request(prepareMethod, {
-    textDocument: { uri },
-    position
-  });
+  const items = await prepareHierarchy<TItem>(lspClient, prepareMethod, uri, position, signal);
 
-  // Handle null or empty results
-  if (!items || (Array.isArray(items) && items.length === 0)) {
+  if (items.length === 0) {
     logger.debug(`No hierarchy items found for ${prepareMethod}`);
     return null;
   }
 
-  // Use first item if multiple are returned (e.g., overloaded functions)
-  const item = Array.isArray(items) ? items[0] : items;
+  // Phase 2: Query incoming and outgoing relationships in parallel, one
+  // item at a time so overloads do not flood the server
+  const results: HierarchyResult<TItem, TIncoming, TOutgoing>[] = [];
+  for (const { index, item } of selectHierarchyItems(items, selection)) {
+    logger.debug(`Found hierarchy item: ${JSON.stringify(item)}`);
 
-  logger.debug(`Found hierarchy item: ${JSON.stringify(item)}`);
+    // A failed query leaves that side empty; cancellation ends the whole fetch
+    const [incoming, outgoing] = await Promise.all([
+      lspClient.request(incomingMethod, { item }, { signal }).catch(error => {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        logger.warn(`${incomingMethod} failed:`, error);
+        return null;
+      }),
+      lspClient.request(outgoingMethod, { item }, { signal }).catch(error => {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        logger.warn(`${outgoingMethod} failed:`, error);
+        return null;
+      })
+    ]);
 
-  // Phase 2: Query incoming and outgoing relationships in parallel
-  const [incoming, outgoing] = await Promise.all([
-    lspClient.request(incomingMethod, { item }).catch(error => {
-      logger.warn(`${incomingMethod} failed:`, error);
-      return null;
-    }),
-    lspClient.request(outgoingMethod, { item }).catch(error => {
-      logger.warn(`${outgoingMethod} failed:`, error);
-      return null;
-    })
-  ]);
+    results.push({
+      index,
+      item,
+      incoming: incoming || [],
+      outgoing: outgoing || []
+    });
+  }
 
-  return {
-    item,
-    incoming: incoming || [],
-    outgoing: outgoing || []
-  };
+  return { items, results };
 }
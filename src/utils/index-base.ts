@@ -0,0 +1,88 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { logger } from './logger.js';
+
+/**
+ * Number of the first line and column in tool arguments and results: 0 as
+ * in LSP, or 1 as in compiler output and editors
+ */
+export type IndexBase = 0 | 1;
+
+export function isIndexBase(value: unknown): value is IndexBase {
+  return value === 0 || value === 1;
+}
+
+/**
+ * Index base from INDEX_BASE, or 0
+ */
+export function getIndexBase(): IndexBase {
+  const value = process.env.INDEX_BASE;
+  if (value === undefined) {
+    return 0;
+  }
+
+  const base = Number(value);
+  if (!isIndexBase(base)) {
+    logger.warn(`Ignoring invalid INDEX_BASE '${value}'`);
+    return 0;
+  }
+  return base;
+}
+
+/**
+ * Result fields holding a line or column number
+ */
+const positionFields = new Set([
+  'line',
+  'column',
+  'character',
+  'end_line',
+  'end_column',
+  'endLine',
+  'endColumn'
+]);
+
+/**
+ * Add an offset to every line and column in a tool result, including
+ * nested locations, ranges and source context highlights
+ */
+export function offsetPositions(value: unknown, offset: number): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => offsetPositions(item, offset));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (positionFields.has(key) && typeof field === 'number') {
+      result[key] = field + offset;
+    } else if (key === 'highlight' && field && typeof field === 'object') {
+      // Column span of a source context line
+      const { start, end } = field as { start: number; end: number };
+      result[key] = { start: start + offset, end: end + offset };
+    } else {
+      result[key] = offsetPositions(field, offset);
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert the lines and columns of a JSON tool result from 0-based to the
+ * given base. Results that are not JSON are returned unchanged.
+ */
+export function rebaseResult(result: string, base: IndexBase): string {
+  if (base === 0) {
+    return result;
+  }
+
+  try {
+    return JSON.stringify(offsetPositions(JSON.parse(result), base), null, 2);
+  } catch {
+    return result;
+  }
+}
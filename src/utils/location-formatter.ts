@@ -0,0 +1,110 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { Position, Range } from './lsp-types.js';
+import { SourceContextLine, SourceContextReader } from './source-context.js';
+import {
+  DEFAULT_POSITION_ENCODING,
+  PositionEncoding,
+  convertColumn,
+  getColumnEncoding
+} from './position-encoding.js';
+
+/**
+ * Maps positions between tool arguments and output, whose columns are in
+ * the configured COLUMN_ENCODING, and the language server, whose columns are
+ * in the encoding it negotiated. Converting a column needs its line, so
+ * files are read (once per formatter) unless both encodings are the same.
+ * Create one formatter per tool call.
+ */
+export class LocationFormatter {
+  private serverEncoding: PositionEncoding;
+  private clientEncoding: PositionEncoding;
+  private reader: SourceContextReader;
+
+  constructor(
+    serverEncoding: PositionEncoding = DEFAULT_POSITION_ENCODING,
+    clientEncoding: PositionEncoding = getColumnEncoding(),
+    reader: SourceContextReader = new SourceContextReader()
+  ) {
+    this.serverEncoding = serverEncoding;
+    this.clientEncoding = clientEncoding;
+    this.reader = reader;
+  }
+
+  /**
+   * Convert a position from tool arguments for a request to the server
+   */
+  toServer(uri: string, position: Position): Promise<Position> {
+    return this.convert(uri, position, this.clientEncoding, this.serverEncoding);
+  }
+
+  toServerRange(uri: string, range: Range): Promise<Range> {
+    return this.convertRange(uri, range, this.clientEncoding, this.serverEncoding);
+  }
+
+  /**
+   * Convert a position from the server for tool output
+   */
+  toClient(uri: string, position: Position): Promise<Position> {
+    return this.convert(uri, position, this.serverEncoding, this.clientEncoding);
+  }
+
+  toClientRange(uri: string, range: Range): Promise<Range> {
+    return this.convertRange(uri, range, this.serverEncoding, this.clientEncoding);
+  }
+
+  /**
+   * Line and column of a position from the server, as tools report them
+   */
+  async position(uri: string, position: Position): Promise<{ line: number; column: number }> {
+    const converted = await this.toClient(uri, position);
+    return { line: converted.line, column: converted.character };
+  }
+
+  /**
+   * Source lines around a range from the server, with client highlights
+   */
+  async context(
+    uri: string,
+    range: Range,
+    contextLines: number | undefined
+  ): Promise<SourceContextLine[] | undefined> {
+    if (contextLines === undefined) {
+      return undefined;
+    }
+    return this.reader.getContext(uri, await this.toClientRange(uri, range), contextLines, this.clientEncoding);
+  }
+
+  private async convert(
+    uri: string,
+    position: Position,
+    from: PositionEncoding,
+    to: PositionEncoding
+  ): Promise<Position> {
+    if (from === to) {
+      return position;
+    }
+
+    // Without the line (unreadable file, stale position) leave the column as is
+    const lines = await this.reader.getLines(uri);
+    const text = lines?.[position.line];
+    if (text === undefined) {
+      return position;
+    }
+    return { line: position.line, character: convertColumn(text, position.character, from, to) };
+  }
+
+  private async convertRange(
+    uri: string,
+    range: Range,
+    from: PositionEncoding,
+    to: PositionEncoding
+  ): Promise<Range> {
+    return {
+      start: await this.convert(uri, range.start, from, to),
+      end: await this.convert(uri, range.end, from, to)
+    };
+  }
+}
@@ -128,6 +128,87 @@ export interface TypeHierarchyItem {
   data?: any;
 }
 
+/**
+ * Hierarchical document symbol from LSP
+ */
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+/**
+ * Flat symbol information from LSP (workspace/symbol, and documentSymbol on some servers)
+ */
+export interface SymbolInformation {
+  name: string;
+  kind: number;
+  location: Location;
+  containerName?: string;
+}
+
+/**
+ * Text edit from LSP
+ */
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+/**
+ * Edits to a single versioned document (WorkspaceEdit.documentChanges entry)
+ */
+export interface TextDocumentEdit {
+  textDocument: {
+    uri: string;
+    version?: number | null;
+  };
+  edits: TextEdit[];
+}
+
+/**
+ * Resource operation (create/rename/delete file) in WorkspaceEdit.documentChanges
+ */
+export interface ResourceOperation {
+  kind: 'create' | 'rename' | 'delete';
+  uri?: string;
+  oldUri?: string;
+  newUri?: string;
+}
+
+/**
+ * LSP WorkspaceEdit, which can use either `changes` or `documentChanges`
+ */
+export interface WorkspaceEdit {
+  changes?: { [uri: string]: TextEdit[] };
+  documentChanges?: Array<TextDocumentEdit | ResourceOperation>;
+}
+
+/**
+ * LSP Command, e.g. a clangd tweak executed via workspace/executeCommand
+ */
+export interface Command {
+  title: string;
+  command: string;
+  arguments?: any[];
+}
+
+/**
+ * LSP CodeAction (quick fix or refactoring)
+ */
+export interface CodeAction {
+  title: string;
+  kind?: string;
+  diagnostics?: Diagnostic[];
+  isPreferred?: boolean;
+  edit?: WorkspaceEdit;
+  command?: Command;
+  data?: any;
+}
+
 /**
  * Normalize LSP location result which can be Location | Location[] | null
  */
@@ -0,0 +1,177 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { realpathSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { basename, delimiter, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { logger } from './logger.js';
+import { PathAccessError } from './errors.js';
+import { parseShellArgs } from '../config-detector.js';
+
+/**
+ * Entry of compile_commands.json
+ */
+interface CompileCommand {
+  directory: string;
+  arguments?: string[];
+  command?: string;
+}
+
+/**
+ * Compiler flags naming an include directory, longest first so that
+ * '-isystem' is not read as '-I' followed by 'system'
+ */
+const includeFlags = ['--include-directory=', '-cxx-isystem', '-idirafter', '-isystem', '-iquote', '-I'];
+
+/**
+ * Throws if a tool may not touch a file
+ */
+export type FileAccessCheck = (filePath: string) => void | Promise<void>;
+
+/**
+ * Absolute path with symlinks and '..' resolved. For a path that does not
+ * exist, the longest existing parent is resolved instead.
+ */
+export function canonicalizePath(filePath: string): string {
+  const absolute = resolve(filePath);
+  try {
+    return realpathSync.native(absolute);
+  } catch {
+    const parent = dirname(absolute);
+    if (parent === absolute) {
+      return absolute;
+    }
+    return join(canonicalizePath(parent), basename(absolute));
+  }
+}
+
+function isWithin(directory: string, filePath: string): boolean {
+  const relativePath = relative(directory, filePath);
+  return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+}
+
+/**
+ * The compiler arguments of a compile_commands.json entry, or undefined if
+ * the entry is malformed
+ */
+function getEntryArguments(entry: unknown): string[] | undefined {
+  if (!entry || typeof entry !== 'object') {
+    return undefined;
+  }
+  const { arguments: args, command } = entry as Partial<Record<keyof CompileCommand, unknown>>;
+  if (Array.isArray(args)) {
+    return args.every(arg => typeof arg === 'string') ? args : undefined;
+  }
+  return typeof command === 'string' ? parseShellArgs(command) : undefined;
+}
+
+/**
+ * Entries of compile_commands.json to scan between yields to the event loop
+ */
+const ENTRIES_PER_YIELD = 1000;
+
+/**
+ * Include directories passed to the compiler in compile_commands.json.
+ * Databases of large projects run to hundreds of MB, so the file is read
+ * asynchronously and other work gets a turn while the entries are scanned.
+ */
+export async function getIncludeDirectories(compileCommandsPath: string): Promise<string[]> {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(await readFile(compileCommandsPath, 'utf8'));
+  } catch (error) {
+    logger.warn(`Could not read include directories from ${compileCommandsPath}:`, error);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const directories = new Set<string>();
+  let skipped = 0;
+  for (let index = 0; index < entries.length; index++) {
+    if (index > 0 && index % ENTRIES_PER_YIELD === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    const entry = entries[index] as CompileCommand;
+    const args = getEntryArguments(entry);
+    if (!args) {
+      skipped++;
+      continue;
+    }
+    const directory = typeof entry.directory === 'string' ? entry.directory : dirname(compileCommandsPath);
+    for (let i = 0; i < args.length; i++) {
+      const flag = includeFlags.find(prefix => args[i].startsWith(prefix));
+      if (!flag) {
+        continue;
+      }
+      // '-Ifoo' or '-I foo'
+      const value = args[i].length > flag.length ? args[i].slice(flag.length) : args[++i];
+      if (value) {
+        directories.add(resolve(directory, value));
+      }
+    }
+  }
+  if (skipped > 0) {
+    logger.warn(`Skipped ${skipped} malformed entries of ${compileCommandsPath}`);
+  }
+  return [...directories];
+}
+
+/**
+ * Directories tool arguments may name files in. Paths are compared after
+ * resolving symlinks, so a link inside the project cannot point outside it.
+ */
+export class PathPolicy {
+  private readonly directories: string[];
+
+  constructor(directories: string[]) {
+    this.directories = [...new Set(directories.map(canonicalizePath))];
+  }
+
+  isAllowed(filePath: string): boolean {
+    const canonical = canonicalizePath(filePath);
+    return this.directories.some(directory => isWithin(directory, canonical));
+  }
+
+  /**
+   * Throw a PathAccessError if a file is outside the allowed directories
+   */
+  check(filePath: string): void {
+    if (!this.isAllowed(filePath)) {
+      throw new PathAccessError(
+        `Access denied: ${filePath} is outside the project root, the compile database's include directories and ALLOWED_PATHS`
+      );
+    }
+  }
+}
+
+/**
+ * Path policy for a project: the project root, the include directories of
+ * its compile database and the ALLOWED_PATHS list. Returns undefined when
+ * RESTRICT_FILE_ACCESS is 'false'.
+ */
+export async function createPathPolicy(
+  projectRoot: string,
+  compileCommandsPath?: string
+): Promise<PathPolicy | undefined> {
+  if (process.env.RESTRICT_FILE_ACCESS === 'false') {
+    logger.warn('RESTRICT_FILE_ACCESS=false: tools may read any file');
+    return undefined;
+  }
+
+  const directories = [projectRoot];
+  if (compileCommandsPath) {
+    directories.push(...await getIncludeDirectories(compileCommandsPath));
+  }
+  if (process.env.ALLOWED_PATHS) {
+    directories.push(...process.env.ALLOWED_PATHS
+      .split(delimiter)
+      .filter(Boolean)
+      .map(path => resolve(projectRoot, path)));
+  }
+
+  logger.debug(`Tools may read files in ${directories.length} directories`);
+  return new PathPolicy(directories);
+}
@@ -0,0 +1,110 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { logger } from './logger.js';
+
+/**
+ * Unit in which a column counts characters: UTF-8 bytes, UTF-16 code units
+ * (the LSP default, and JS string indexing) or UTF-32 code points
+ */
+export type PositionEncoding = 'utf-8' | 'utf-16' | 'utf-32';
+
+export const DEFAULT_POSITION_ENCODING: PositionEncoding = 'utf-16';
+
+export function isPositionEncoding(value: unknown): value is PositionEncoding {
+  return value === 'utf-8' || value === 'utf-16' || value === 'utf-32';
+}
+
+/**
+ * Encoding of the columns in tool inputs and outputs, from COLUMN_ENCODING,
+ * or UTF-16
+ */
+export function getColumnEncoding(): PositionEncoding {
+  const value = process.env.COLUMN_ENCODING;
+  if (value === undefined) {
+    return DEFAULT_POSITION_ENCODING;
+  }
+
+  const encoding = value.toLowerCase();
+  if (!isPositionEncoding(encoding)) {
+    logger.warn(`Ignoring invalid COLUMN_ENCODING '${value}'`);
+    return DEFAULT_POSITION_ENCODING;
+  }
+  return encoding;
+}
+
+/**
+ * Number of units a code point takes in an encoding
+ */
+function unitLength(codePoint: number, encoding: PositionEncoding): number {
+  switch (encoding) {
+    case 'utf-8':
+      return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    case 'utf-16':
+      return codePoint < 0x10000 ? 1 : 2;
+    case 'utf-32':
+      return 1;
+  }
+}
+
+/**
+ * Convert a column in an encoding to an index into the line's JS string. A
+ * column inside a character maps to its start; one past the end of the line
+ * stays that far past it.
+ */
+export function columnToIndex(lineText: string, column: number, encoding: PositionEncoding): number {
+  if (encoding === 'utf-16') {
+    return column;
+  }
+
+  let index = 0;
+  let units = 0;
+  while (index < lineText.length) {
+    const codePoint = lineText.codePointAt(index)!;
+    const width = unitLength(codePoint, encoding);
+    if (units + width > column) {
+      return index;
+    }
+    units += width;
+    index += codePoint > 0xffff ? 2 : 1;
+  }
+  return index + (column - units);
+}
+
+/**
+ * Convert an index into the line's JS string to a column in an encoding
+ */
+export function indexToColumn(lineText: string, index: number, encoding: PositionEncoding): number {
+  if (encoding === 'utf-16') {
+    return index;
+  }
+
+  let position = 0;
+  let units = 0;
+  while (position < lineText.length) {
+    const codePoint = lineText.codePointAt(position)!;
+    const next = position + (codePoint > 0xffff ? 2 : 1);
+    if (next > index) {
+      break;
+    }
+    units += unitLength(codePoint, encoding);
+    position = next;
+  }
+  return units + Math.max(0, index - lineText.length);
+}
+
+/**
+ * Convert a column on a line from one encoding to another
+ */
+export function convertColumn(
+  lineText: string,
+  column: number,
+  from: PositionEncoding,
+  to: PositionEncoding
+): number {
+  if (from === to) {
+    return column;
+  }
+  return indexToColumn(lineText, columnToIndex(lineText, column, from), to);
+}
@@ -0,0 +1,156 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { logger } from './logger.js';
+import { normalizeToUri } from './uri.js';
+import { SourceContextReader } from './source-context.js';
+import { PositionEncoding, columnToIndex, getColumnEncoding, indexToColumn } from './position-encoding.js';
+
+/**
+ * How far (in columns) to look for an identifier when the requested column
+ * is not on one
+ */
+export const DEFAULT_SEARCH_RADIUS = 8;
+
+/**
+ * A span of a source line that a position was matched against
+ */
+export interface TokenMatch {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Outcome of resolving a requested position: the column to query (and the
+ * token it falls on, if any), or a message when a text hint did not match
+ */
+export type PositionResolution =
+  | { resolved: { line: number; column: number; token?: string; adjusted: boolean } }
+  | { resolved: null; message: string };
+
+/**
+ * Search radius from POSITION_SEARCH_RADIUS, or the default
+ */
+export function getDefaultSearchRadius(): number {
+  const value = process.env.POSITION_SEARCH_RADIUS;
+  if (value === undefined) {
+    return DEFAULT_SEARCH_RADIUS;
+  }
+
+  const radius = Number(value);
+  if (!Number.isInteger(radius) || radius < 0) {
+    logger.warn(`Ignoring invalid POSITION_SEARCH_RADIUS '${value}'`);
+    return DEFAULT_SEARCH_RADIUS;
+  }
+  return radius;
+}
+
+/**
+ * Find the identifier tokens on a line
+ */
+export function findIdentifiers(lineText: string): TokenMatch[] {
+  const tokens: TokenMatch[] = [];
+  for (const match of lineText.matchAll(/[A-Za-z_$][\w$]*/g)) {
+    tokens.push({ start: match.index!, end: match.index! + match[0].length, text: match[0] });
+  }
+  return tokens;
+}
+
+/**
+ * Find every occurrence of a text hint on a line
+ */
+function findOccurrences(lineText: string, text: string): TokenMatch[] {
+  const matches: TokenMatch[] = [];
+  for (let index = lineText.indexOf(text); index !== -1; index = lineText.indexOf(text, index + 1)) {
+    matches.push({ start: index, end: index + text.length, text });
+  }
+  return matches;
+}
+
+/**
+ * Pick the span containing the column, or else the nearest one within the
+ * radius. Ties go to the span on the left, since "one past the end" is the
+ * most common off-by-one.
+ */
+export function findNearestToken(
+  lineText: string,
+  column: number,
+  radius: number,
+  text?: string
+): TokenMatch | null {
+  const candidates = text !== undefined ? findOccurrences(lineText, text) : findIdentifiers(lineText);
+
+  let best: TokenMatch | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = column < candidate.start
+      ? candidate.start - column
+      : Math.max(0, column - (candidate.end - 1));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= radius ? best : null;
+}
+
+/**
+ * Resolve a requested position against the file's content. A column on an
+ * identifier (or on the text hint) is kept; otherwise it snaps to the start
+ * of the nearest one within the radius. Without a hint, a position with
+ * nothing nearby is passed through unchanged and left to the server.
+ * With exact, as for renames written to disk, only a text hint may move the
+ * position: a column that is not on an identifier is reported instead.
+ * Columns are in the given encoding (by default COLUMN_ENCODING); the
+ * radius counts UTF-16 code units. Lines and columns are 0-based, but
+ * messages number them from indexBase.
+ */
+export async function resolvePosition(
+  filePath: string,
+  line: number,
+  column: number,
+  options: { radius: number; text?: string; exact?: boolean; encoding?: PositionEncoding; indexBase?: number },
+  reader: SourceContextReader = new SourceContextReader()
+): Promise<PositionResolution> {
+  const encoding = options.encoding ?? getColumnEncoding();
+  const base = options.indexBase ?? 0;
+  const unchanged: PositionResolution = { resolved: { line, column, adjusted: false } };
+
+  const lines = await reader.getLines(normalizeToUri(filePath));
+  if (!lines || line >= lines.length) {
+    return unchanged;
+  }
+
+  const lineText = lines[line];
+  const index = columnToIndex(lineText, column, encoding);
+  const snap = !options.exact || options.text !== undefined;
+  const match = findNearestToken(lineText, index, snap ? options.radius : 0, options.text);
+  if (!match) {
+    if (options.text !== undefined) {
+      return {
+        resolved: null,
+        message: `Text '${options.text}' not found within ${options.radius} columns of ` +
+          `${line + base}:${column + base}`
+      };
+    }
+    if (options.exact) {
+      return {
+        resolved: null,
+        message: `No identifier at ${line + base}:${column + base}; ` +
+          'give the exact column or pass text to allow a nearby match'
+      };
+    }
+    return unchanged;
+  }
+
+  if (index >= match.start && index < match.end) {
+    return { resolved: { line, column, token: match.text, adjusted: false } };
+  }
+
+  const start = indexToColumn(lineText, match.start, encoding);
+  logger.debug(`Snapped ${line}:${column} to '${match.text}' at ${line}:${start}`);
+  return { resolved: { line, column: start, token: match.text, adjusted: true } };
+}
@@ -0,0 +1,82 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+
+/**
+ * Resolve a file_path argument; relative paths are taken from the project root
+ */
+export function resolveProjectPath(projectRoot: string, filePath: string): string {
+  return resolve(projectRoot, filePath);
+}
+
+/**
+ * Express a path relative to the project root. Paths outside it (system
+ * headers, other checkouts) stay absolute.
+ */
+export function toProjectRelative(projectRoot: string, filePath: string): string {
+  const relativePath = relative(projectRoot, filePath);
+  if (relativePath === '' || relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    return filePath;
+  }
+  return relativePath;
+}
+
+/**
+ * Result fields holding a path or a list of paths
+ */
+const pathFields = new Set(['file', 'reopened_files']);
+
+/**
+ * A quoted path:line in a rendered diagram, the node tooltips of both
+ * Mermaid and DOT
+ */
+const diagramLocation = /"([^"]+):(\d+)"/g;
+
+function relativizePath(value: unknown, projectRoot: string): unknown {
+  return typeof value === 'string' && isAbsolute(value) ? toProjectRelative(projectRoot, value) : value;
+}
+
+function relativizeDiagram(diagram: string, projectRoot: string): string {
+  return diagram.replace(diagramLocation, (match, filePath: string, line: string) =>
+    isAbsolute(filePath) ? `"${toProjectRelative(projectRoot, filePath)}:${line}"` : match
+  );
+}
+
+function relativizePaths(value: unknown, projectRoot: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => relativizePaths(item, projectRoot));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (pathFields.has(key)) {
+      result[key] = Array.isArray(field)
+        ? field.map(item => relativizePath(item, projectRoot))
+        : relativizePath(field, projectRoot);
+    } else if (key === 'diagram' && typeof field === 'string') {
+      result[key] = relativizeDiagram(field, projectRoot);
+    } else {
+      result[key] = relativizePaths(field, projectRoot);
+    }
+  }
+  return result;
+}
+
+/**
+ * Rewrite the paths of a JSON tool result relative to the project root:
+ * `file` and `reopened_files` fields and the node locations of rendered
+ * diagrams. URIs are left absolute. Results that are not JSON are returned
+ * unchanged.
+ */
+export function relativizeResultPaths(result: string, projectRoot: string): string {
+  try {
+    return JSON.stringify(relativizePaths(JSON.parse(result), projectRoot), null, 2);
+  } catch {
+    return result;
+  }
+}
@@ -0,0 +1,158 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { logger } from './logger.js';
+
+/**
+ * How the wait before a restart grows with the attempt number
+ */
+export type RestartBackoff = 'constant' | 'linear' | 'exponential';
+
+const restartBackoffs: RestartBackoff[] = ['constant', 'linear', 'exponential'];
+
+/**
+ * When a crashed language server is restarted, and when to give up
+ */
+export interface RestartPolicy {
+  /** Restarts in a row before giving up (0 disables automatic restarts) */
+  maxRestarts: number;
+  /** Wait before the first restart */
+  initialDelayMs: number;
+  backoff: RestartBackoff;
+  /** Upper bound for the wait before a restart */
+  maxDelayMs: number;
+  /** Running this long after a start resets the restart count */
+  stableOperationPeriodMs: number;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  maxRestarts: 3,
+  initialDelayMs: 1000,
+  backoff: 'linear',
+  maxDelayMs: 30000,
+  stableOperationPeriodMs: 60000
+};
+
+/**
+ * Non-negative integer from an environment variable, or the default
+ */
+function readCount(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    logger.warn(`Ignoring invalid ${name} '${value}'`);
+    return defaultValue;
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Restart policy from RESTART_MAX_ATTEMPTS, RESTART_DELAY_MS,
+ * RESTART_BACKOFF, RESTART_MAX_DELAY_MS and RESTART_STABLE_PERIOD_MS
+ */
+export function getRestartPolicy(): RestartPolicy {
+  let backoff = DEFAULT_RESTART_POLICY.backoff;
+  const backoffValue = process.env.RESTART_BACKOFF?.toLowerCase();
+  if (backoffValue !== undefined) {
+    if (restartBackoffs.includes(backoffValue as RestartBackoff)) {
+      backoff = backoffValue as RestartBackoff;
+    } else {
+      logger.warn(`Ignoring invalid RESTART_BACKOFF '${process.env.RESTART_BACKOFF}'`);
+    }
+  }
+
+  return {
+    maxRestarts: readCount('RESTART_MAX_ATTEMPTS', DEFAULT_RESTART_POLICY.maxRestarts),
+    initialDelayMs: readCount('RESTART_DELAY_MS', DEFAULT_RESTART_POLICY.initialDelayMs),
+    backoff,
+    maxDelayMs: readCount('RESTART_MAX_DELAY_MS', DEFAULT_RESTART_POLICY.maxDelayMs),
+    stableOperationPeriodMs: readCount('RESTART_STABLE_PERIOD_MS', DEFAULT_RESTART_POLICY.stableOperationPeriodMs)
+  };
+}
+
+/**
+ * Wait before the given restart attempt (1 for the first)
+ */
+export function getRestartDelay(policy: RestartPolicy, attempt: number): number {
+  let delayMs: number;
+  switch (policy.backoff) {
+    case 'constant':
+      delayMs = policy.initialDelayMs;
+      break;
+    case 'linear':
+      delayMs = policy.initialDelayMs * attempt;
+      break;
+    case 'exponential':
+      delayMs = policy.initialDelayMs * 2 ** (attempt - 1);
+      break;
+  }
+  return Math.min(delayMs, policy.maxDelayMs);
+}
+
+/**
+ * When a language server that stopped responding without exiting is
+ * judged hung, and killed so that the restart policy applies
+ */
+export interface WatchdogOptions {
+  /** Time between liveness probes (0 disables probing) */
+  probeIntervalMs: number;
+  /** Time a probe may go unanswered */
+  probeTimeoutMs: number;
+  /** Requests in a row that may time out (0 to ignore timeouts) */
+  maxConsecutiveTimeouts: number;
+}
+
+export const DEFAULT_WATCHDOG_OPTIONS: WatchdogOptions = {
+  probeIntervalMs: 60000,
+  probeTimeoutMs: 10000,
+  maxConsecutiveTimeouts: 3
+};
+
+/**
+ * Watchdog options from WATCHDOG_INTERVAL_MS, WATCHDOG_PROBE_TIMEOUT_MS and
+ * WATCHDOG_MAX_TIMEOUTS
+ */
+export function getWatchdogOptions(): WatchdogOptions {
+  return {
+    probeIntervalMs: readCount('WATCHDOG_INTERVAL_MS', DEFAULT_WATCHDOG_OPTIONS.probeIntervalMs),
+    probeTimeoutMs: readCount('WATCHDOG_PROBE_TIMEOUT_MS', DEFAULT_WATCHDOG_OPTIONS.probeTimeoutMs),
+    maxConsecutiveTimeouts: readCount('WATCHDOG_MAX_TIMEOUTS', DEFAULT_WATCHDOG_OPTIONS.maxConsecutiveTimeouts)
+  };
+}
+
+/**
+ * How often a language server's memory is sampled, and the ceiling above
+ * which it is restarted
+ */
+export interface MemoryMonitorOptions {
+  /** Time between samples (0 disables sampling in the background) */
+  pollIntervalMs: number;
+  /** Resident memory in bytes above which the server is restarted (0 for no limit) */
+  limitBytes: number;
+}
+
+export const DEFAULT_MEMORY_MONITOR_OPTIONS: MemoryMonitorOptions = {
+  pollIntervalMs: 60000,
+  limitBytes: 0
+};
+
+/**
+ * Memory monitor options from MEMORY_POLL_INTERVAL_MS and MEMORY_LIMIT_MB
+ */
+export function getMemoryMonitorOptions(): MemoryMonitorOptions {
+  return {
+    pollIntervalMs: readCount('MEMORY_POLL_INTERVAL_MS', DEFAULT_MEMORY_MONITOR_OPTIONS.pollIntervalMs),
+    limitBytes: readCount('MEMORY_LIMIT_MB', 0) * 1024 * 1024
+  };
+}
+
+/**
+ * Time without tool calls after which a language server is stopped, from
+ * IDLE_TIMEOUT_MS (0, the default, keeps servers running)
+ */
+export function getIdleTimeout(): number {
+  return readCount('IDLE_TIMEOUT_MS', 0);
+}
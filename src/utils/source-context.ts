@@ -0,0 +1,97 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { readFile } from 'node:fs/promises';
+import { uriToPath } from './uri.js';
+import { logger } from './logger.js';
+import { Range } from './lsp-types.js';
+import { DEFAULT_POSITION_ENCODING, PositionEncoding, indexToColumn } from './position-encoding.js';
+
+/**
+ * Most lines of context allowed on each side of a location, so that a large
+ * request cannot make every location carry the whole file
+ */
+export const MAX_CONTEXT_LINES = 20;
+
+/**
+ * One source line around a returned location. Lines covered by the matched
+ * range carry the highlighted column span.
+ */
+export interface SourceContextLine {
+  line: number;
+  text: string;
+  highlight?: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * Reads source lines around locations. Each file is read at most once per
+ * reader, so create one reader per tool call and share it across results.
+ */
+export class SourceContextReader {
+  private files: Map<string, Promise<string[] | null>> = new Map();
+
+  /**
+   * Get the lines of a file, or null if it cannot be read
+   */
+  getLines(uri: string): Promise<string[] | null> {
+    let lines = this.files.get(uri);
+    if (!lines) {
+      lines = readFile(uriToPath(uri), 'utf-8')
+        .then(content => content.split('\n').map(line => line.replace(/\r$/, '')))
+        .catch(error => {
+          logger.debug('Failed to read source context:', uri, error);
+          return null;
+        });
+      this.files.set(uri, lines);
+    }
+    return lines;
+  }
+
+  /**
+   * Get the lines of a range plus `contextLines` (at most MAX_CONTEXT_LINES)
+   * lines before and after it. Returns undefined if contextLines is undefined
+   * or the file cannot be read.
+   * Highlights are in the columns of the range's encoding.
+   */
+  async getContext(
+    uri: string,
+    range: Range,
+    contextLines: number | undefined,
+    encoding: PositionEncoding = DEFAULT_POSITION_ENCODING
+  ): Promise<SourceContextLine[] | undefined> {
+    if (contextLines === undefined) {
+      return undefined;
+    }
+
+    const lines = await this.getLines(uri);
+    if (!lines) {
+      return undefined;
+    }
+
+    const around = Math.min(contextLines, MAX_CONTEXT_LINES);
+    const first = Math.max(0, range.start.line - around);
+    const last = Math.min(lines.length - 1, range.end.line + around);
+
+    const context: SourceContextLine[] = [];
+    for (let line = first; line <= last; line++) {
+      const text = lines[line];
+      const entry: SourceContextLine = { line, text };
+
+      if (line >= range.start.line && line <= range.end.line) {
+        const start = line === range.start.line ? range.start.character : 0;
+        const end = line === range.end.line ? range.end.character : indexToColumn(text, text.length, encoding);
+        if (end > start) {
+          entry.highlight = { start, end };
+        }
+      }
+
+      context.push(entry);
+    }
+
+    return context;
+  }
+}
@@ -0,0 +1,228 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { LSPClient } from '../lsp-client.js';
+import { FileTracker } from '../file-tracker.js';
+import { uriToPath } from './uri.js';
+import { CancelledError, withRetry } from './errors.js';
+import { logger } from './logger.js';
+import { DocumentSymbol, Position, SymbolInformation, symbolKindNames } from './lsp-types.js';
+import { LocationFormatter } from './location-formatter.js';
+
+/**
+ * A symbol whose name matched a `symbol` argument
+ */
+export interface SymbolCandidate {
+  name: string;
+  qualifiedName: string;
+  kind: number;
+  uri: string;
+  /** Start of the name, in the columns tools take and report */
+  position: Position;
+}
+
+/**
+ * Outcome of resolving a `symbol` argument: exactly one match, or a message
+ * plus whatever candidates were found (several when the name is ambiguous)
+ */
+export type SymbolResolution =
+  | { resolved: SymbolCandidate }
+  | { resolved: null; message: string; candidates: SymbolCandidate[] };
+
+/**
+ * Split a symbol name such as `net::HttpRequest::Start` or `pkg.Class.method`
+ * into its scope segments
+ */
+export function parseSymbolName(symbol: string): string[] {
+  return symbol.split(/::|\./).map(segment => segment.trim()).filter(segment => segment.length > 0);
+}
+
+/**
+ * Check whether a candidate's qualified name ends with the queried segments
+ */
+function matchesQuery(qualifiedName: string, query: string[]): boolean {
+  const segments = parseSymbolName(qualifiedName);
+  if (segments.length < query.length) {
+    return false;
+  }
+  const offset = segments.length - query.length;
+  return query.every((segment, i) => segments[offset + i] === segment);
+}
+
+/**
+ * Flatten a documentSymbol result into candidates with qualified names
+ */
+function flattenDocumentSymbols(
+  uri: string,
+  symbols: (DocumentSymbol | SymbolInformation)[],
+  scope: string[] = []
+): SymbolCandidate[] {
+  const candidates: SymbolCandidate[] = [];
+
+  for (const symbol of symbols) {
+    if ('location' in symbol) {
+      candidates.push(fromSymbolInformation(symbol));
+      continue;
+    }
+
+    const qualified = [...scope, symbol.name];
+    candidates.push({
+      name: symbol.name,
+      qualifiedName: qualified.join('::'),
+      kind: symbol.kind,
+      uri,
+      position: symbol.selectionRange.start
+    });
+
+    if (symbol.children) {
+      candidates.push(...flattenDocumentSymbols(uri, symbol.children, qualified));
+    }
+  }
+
+  return candidates;
+}
+
+function fromSymbolInformation(symbol: SymbolInformation): SymbolCandidate {
+  const container = parseSymbolName(symbol.containerName ?? '');
+  return {
+    name: symbol.name,
+    qualifiedName: [...container, symbol.name].join('::'),
+    kind: symbol.kind,
+    uri: symbol.location.uri,
+    position: symbol.location.range.start
+  };
+}
+
+/**
+ * Convert candidate positions from the server's encoding to tool columns
+ */
+function toClientPositions(candidates: SymbolCandidate[], formatter: LocationFormatter): Promise<SymbolCandidate[]> {
+  return Promise.all(candidates.map(async candidate => ({
+    ...candidate,
+    position: await formatter.toClient(candidate.uri, candidate.position)
+  })));
+}
+
+/**
+ * Drop candidates reported more than once at the same position
+ */
+function dedupe(candidates: SymbolCandidate[]): SymbolCandidate[] {
+  const seen = new Set<string>();
+  return candidates.filter(candidate => {
+    const key = `${candidate.uri}:${candidate.position.line}:${candidate.position.character}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function toResolution(symbol: string, candidates: SymbolCandidate[], where: string): SymbolResolution {
+  if (candidates.length === 1) {
+    return { resolved: candidates[0] };
+  }
+  if (candidates.length === 0) {
+    return { resolved: null, message: `No symbol named '${symbol}' found ${where}`, candidates };
+  }
+  return {
+    resolved: null,
+    message: `'${symbol}' is ambiguous: ${candidates.length} symbols match ${where}. ` +
+      'Use a more qualified name, pass file_path, or use line and column from one of the candidates.',
+    candidates
+  };
+}
+
+/**
+ * Resolve a symbol name to a position using the symbols of a single file
+ */
+export async function resolveSymbolInDocument(
+  lspClient: LSPClient,
+  fileTracker: FileTracker,
+  filePath: string,
+  symbol: string,
+  signal?: AbortSignal
+): Promise<SymbolResolution> {
+  const query = parseSymbolName(symbol);
+  const uri = await fileTracker.ensureFileOpen(filePath);
+
+  const symbols: (DocumentSymbol | SymbolInformation)[] = await withRetry(async () => {
+    const result = await lspClient.request('textDocument/documentSymbol', {
+      textDocument: { uri }
+    }, { signal });
+
+    return result || [];
+  });
+
+  const matches = flattenDocumentSymbols(uri, symbols)
+    .filter(candidate => matchesQuery(candidate.qualifiedName, query));
+  const formatter = new LocationFormatter(lspClient.getPositionEncoding());
+  const candidates = dedupe(await toClientPositions(matches, formatter));
+
+  return toResolution(symbol, candidates, `in ${filePath}`);
+}
+
+/**
+ * Resolve a symbol name to a position using workspace/symbol on the given
+ * servers. The full name is tried first since some servers (e.g. clangd)
+ * understand qualified queries; the bare name is the fallback.
+ */
+export async function resolveSymbolInWorkspace(
+  lspClients: LSPClient[],
+  symbol: string,
+  signal?: AbortSignal
+): Promise<SymbolResolution> {
+  const query = parseSymbolName(symbol);
+  const searches = [...new Set([symbol.trim(), query[query.length - 1]])];
+
+  let candidates: SymbolCandidate[] = [];
+  for (const search of searches) {
+    const results = await Promise.allSettled(lspClients.map(client =>
+      withRetry(async () => {
+        const result = await client.request('workspace/symbol', { query: search }, { signal });
+        return (result || []) as SymbolInformation[];
+      })
+    ));
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        if (result.reason instanceof CancelledError) {
+          throw result.reason;
+        }
+        logger.warn('workspace/symbol failed while resolving symbol:', result.reason);
+      }
+    }
+
+    // Each server's positions are in the encoding it negotiated
+    const converted = await Promise.all(results.map((result, index) => {
+      if (result.status === 'rejected') {
+        return [];
+      }
+      const matches = result.value
+        .map(fromSymbolInformation)
+        .filter(candidate => matchesQuery(candidate.qualifiedName, query));
+      return toClientPositions(matches, new LocationFormatter(lspClients[index].getPositionEncoding()));
+    }));
+    candidates = dedupe(converted.flat());
+
+    if (candidates.length > 0) {
+      break;
+    }
+  }
+
+  return toResolution(symbol, candidates, 'in the workspace');
+}
+
+/**
+ * Format a candidate for tool output
+ */
+export function formatSymbolCandidate(candidate: SymbolCandidate): any {
+  return {
+    name: candidate.qualifiedName,
+    kind: symbolKindNames[candidate.kind] || `Unknown(${candidate.kind})`,
+    file: uriToPath(candidate.uri),
+    line: candidate.position.line,
+    column: candidate.position.character
+  };
+}
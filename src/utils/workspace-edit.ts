@@ -0,0 +1,303 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { readFile, writeFile, rename, unlink, realpath, stat, chmod, chown } from 'node:fs/promises';
+import { uriToPath } from './uri.js';
+import { logger } from './logger.js';
+import { Position, TextEdit, WorkspaceEdit } from './lsp-types.js';
+import { DEFAULT_POSITION_ENCODING, PositionEncoding, columnToIndex } from './position-encoding.js';
+import { LocationFormatter } from './location-formatter.js';
+import { FileAccessCheck } from './path-policy.js';
+
+/**
+ * A single edit with the affected source lines before and after the change
+ */
+export interface EditPreview {
+  line: number;
+  column: number;
+  end_line: number;
+  end_column: number;
+  new_text: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * All edits that a WorkspaceEdit makes to one file
+ */
+export interface FileEditPreview {
+  file: string;
+  uri: string;
+  edits: EditPreview[];
+}
+
+/**
+ * Flatten a WorkspaceEdit into a map of URI -> text edits.
+ * Handles both `changes` and `documentChanges`; resource operations
+ * (create/rename/delete file) are not supported and are skipped.
+ */
+export function collectTextEdits(edit: WorkspaceEdit): Map<string, TextEdit[]> {
+  const editsByUri = new Map<string, TextEdit[]>();
+
+  const add = (uri: string, edits: TextEdit[]) => {
+    const existing = editsByUri.get(uri) || [];
+    existing.push(...edits);
+    editsByUri.set(uri, existing);
+  };
+
+  // documentChanges takes precedence over changes when both are present
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ('textDocument' in change) {
+        add(change.textDocument.uri, change.edits);
+      } else {
+        logger.warn(`Skipping unsupported resource operation: ${change.kind}`);
+      }
+    }
+  } else if (edit.changes) {
+    for (const [uri, edits] of Object.entries(edit.changes)) {
+      add(uri, edits);
+    }
+  }
+
+  return editsByUri;
+}
+
+/**
+ * Compute the offset at which each line starts
+ */
+function computeLineOffsets(text: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      offsets.push(i + 1);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Convert an LSP position to an offset into text. UTF-16 characters match
+ * JS string indexing; other encodings are converted along the line.
+ */
+function offsetAt(text: string, lineOffsets: number[], position: Position, encoding: PositionEncoding): number {
+  if (position.line >= lineOffsets.length) {
+    return text.length;
+  }
+  const lineStart = lineOffsets[position.line];
+  const nextLineStart = position.line + 1 < lineOffsets.length
+    ? lineOffsets[position.line + 1]
+    : text.length;
+  const character = encoding === 'utf-16'
+    ? position.character
+    : columnToIndex(text.substring(lineStart, nextLineStart), position.character, encoding);
+  return Math.min(lineStart + character, nextLineStart);
+}
+
+/**
+ * Apply text edits, with columns in the given encoding, to a document and
+ * return the new content
+ */
+export function applyTextEdits(
+  text: string,
+  edits: TextEdit[],
+  encoding: PositionEncoding = DEFAULT_POSITION_ENCODING
+): string {
+  const lineOffsets = computeLineOffsets(text);
+
+  const resolved = edits.map((edit, index) => ({
+    start: offsetAt(text, lineOffsets, edit.range.start, encoding),
+    end: offsetAt(text, lineOffsets, edit.range.end, encoding),
+    newText: edit.newText,
+    index
+  }));
+
+  // Apply from the end of the document so earlier offsets stay valid.
+  // Edits at the same position keep their original order.
+  resolved.sort((a, b) => (b.start - a.start) || (b.index - a.index));
+
+  let lastStart = Infinity;
+  let result = text;
+  for (const edit of resolved) {
+    if (edit.end > lastStart) {
+      throw new Error('Overlapping text edits cannot be applied');
+    }
+    result = result.substring(0, edit.start) + edit.newText + result.substring(edit.end);
+    lastStart = edit.start;
+  }
+
+  return result;
+}
+
+/**
+ * Build a before/after preview for each edit in a file
+ */
+async function previewFileEdits(
+  uri: string,
+  text: string,
+  edits: TextEdit[],
+  encoding: PositionEncoding,
+  formatter: LocationFormatter
+): Promise<EditPreview[]> {
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''));
+
+  const sorted = [...edits].sort((a, b) =>
+    (a.range.start.line - b.range.start.line) ||
+    (a.range.start.character - b.range.start.character)
+  );
+
+  return Promise.all(sorted.map(async edit => {
+    const { start, end } = edit.range;
+    const startLine = lines[start.line] ?? '';
+    const endLine = lines[end.line] ?? '';
+    const range = await formatter.toClientRange(uri, edit.range);
+
+    return {
+      line: range.start.line,
+      column: range.start.character,
+      end_line: range.end.line,
+      end_column: range.end.character,
+      new_text: edit.newText,
+      before: lines.slice(start.line, end.line + 1).join('\n'),
+      after: startLine.substring(0, columnToIndex(startLine, start.character, encoding)) +
+        edit.newText +
+        endLine.substring(columnToIndex(endLine, end.character, encoding))
+    };
+  }));
+}
+
+/**
+ * Read the affected files and describe a WorkspaceEdit, with columns in the
+ * given encoding, as a per-file list of edits. Every file is passed to
+ * checkAccess before it is read.
+ */
+export async function previewWorkspaceEdit(
+  edit: WorkspaceEdit,
+  encoding: PositionEncoding = DEFAULT_POSITION_ENCODING,
+  checkAccess?: FileAccessCheck
+): Promise<FileEditPreview[]> {
+  const previews: FileEditPreview[] = [];
+  const formatter = new LocationFormatter(encoding);
+
+  for (const [uri, edits] of collectTextEdits(edit)) {
+    const file = uriToPath(uri);
+    await checkAccess?.(file);
+    const text = await readFile(file, 'utf-8');
+    previews.push({
+      file,
+      uri,
+      edits: await previewFileEdits(uri, text, edits, encoding, formatter)
+    });
+  }
+
+  return previews;
+}
+
+/**
+ * New content for one file, written to the file a symlink points at
+ */
+interface FileUpdate {
+  file: string;
+  target: string;
+  original: string;
+  content: string;
+  mode: number;
+  uid: number;
+  gid: number;
+}
+
+/**
+ * Write the new content of a file to a temporary file next to it, with the
+ * original's mode and, where permitted, its owner
+ */
+async function writeTempFile(tempFile: string, update: FileUpdate): Promise<void> {
+  await writeFile(tempFile, update.content, { encoding: 'utf-8', mode: update.mode });
+  await chmod(tempFile, update.mode);
+  try {
+    await chown(tempFile, update.uid, update.gid);
+  } catch (error) {
+    // Only privileged processes can give a file to another user
+    logger.debug(`Could not preserve owner of ${update.target}: ${error}`);
+  }
+}
+
+/**
+ * Write back the original content of files that were already replaced
+ */
+async function restoreOriginals(updates: FileUpdate[]): Promise<void> {
+  for (const update of updates) {
+    try {
+      await writeFile(update.target, update.original, 'utf-8');
+    } catch (error) {
+      logger.error(`Failed to restore ${update.target} after a failed edit: ${error}`);
+    }
+  }
+}
+
+async function removeTempFiles(tempFiles: string[]): Promise<void> {
+  await Promise.all(tempFiles.map(tempFile => unlink(tempFile).catch(() => {})));
+}
+
+/**
+ * Apply a WorkspaceEdit to disk.
+ *
+ * All new contents are computed and written to temporary files first, then
+ * renamed over the originals. Symlinks are followed so the link stays in
+ * place, and the temporary files take the original's mode and owner. If a
+ * write or rename fails, files already replaced are restored and temporary
+ * files are removed, so the edit is applied to all files or none of them.
+ * Every file is passed to checkAccess before anything is written.
+ * Returns the paths of the modified files.
+ */
+export async function applyWorkspaceEdit(
+  edit: WorkspaceEdit,
+  encoding: PositionEncoding = DEFAULT_POSITION_ENCODING,
+  checkAccess?: FileAccessCheck
+): Promise<string[]> {
+  const updates: FileUpdate[] = [];
+
+  for (const [uri, edits] of collectTextEdits(edit)) {
+    const file = uriToPath(uri);
+    await checkAccess?.(file);
+    const target = await realpath(file);
+    const stats = await stat(target);
+    const original = await readFile(target, 'utf-8');
+    updates.push({
+      file,
+      target,
+      original,
+      content: applyTextEdits(original, edits, encoding),
+      mode: stats.mode & 0o7777,
+      uid: stats.uid,
+      gid: stats.gid
+    });
+  }
+
+  const tempFiles: string[] = [];
+  try {
+    for (const update of updates) {
+      const tempFile = `${update.target}.${process.pid}.${Date.now()}.tmp`;
+      tempFiles.push(tempFile);
+      await writeTempFile(tempFile, update);
+    }
+  } catch (error) {
+    await removeTempFiles(tempFiles);
+    throw new Error(`Failed to write edits: ${error}`);
+  }
+
+  let replaced = 0;
+  try {
+    for (; replaced < updates.length; replaced++) {
+      await rename(tempFiles[replaced], updates[replaced].target);
+    }
+  } catch (error) {
+    await restoreOriginals(updates.slice(0, replaced));
+    await removeTempFiles(tempFiles.slice(replaced));
+    throw new Error(`Failed to write edits: ${error}`);
+  }
+
+  logger.info(`Applied workspace edit to ${updates.length} file(s)`);
+
+  return updates.map(update => update.file);
+}
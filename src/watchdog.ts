@@ -0,0 +1,91 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { logger } from './utils/logger.js';
+import { TimeoutError } from './utils/errors.js';
+import { WatchdogOptions } from './utils/restart-policy.js';
+import { LSPClient } from './lsp-client.js';
+
+/**
+ * Detects a language server that stopped responding without exiting, e.g.
+ * deadlocked or swapping. It probes the server periodically and counts
+ * requests that time out in a row; either can judge the server hung.
+ */
+export class Watchdog {
+  private readonly options: WatchdogOptions;
+  private readonly onHung: (reason: string) => void;
+  private client?: LSPClient;
+  private timer?: NodeJS.Timeout;
+  private probing: boolean = false;
+
+  constructor(options: WatchdogOptions, onHung: (reason: string) => void) {
+    this.options = options;
+    this.onHung = onHung;
+  }
+
+  /**
+   * Watch a newly started server's client
+   */
+  start(client: LSPClient): void {
+    this.stop();
+    this.client = client;
+
+    client.onTimeout((method, consecutiveTimeouts) => {
+      const { maxConsecutiveTimeouts } = this.options;
+      if (this.client === client && maxConsecutiveTimeouts > 0 && consecutiveTimeouts >= maxConsecutiveTimeouts) {
+        this.hung(`${consecutiveTimeouts} requests in a row timed out, the last one '${method}'`);
+      }
+    });
+
+    if (this.options.probeIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.probe().catch(error => logger.debug('Liveness probe failed:', error));
+      }, this.options.probeIntervalMs);
+      // Probing alone should not keep the process running
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.client = undefined;
+  }
+
+  /**
+   * Send a request the server can answer without doing any work: servers
+   * reply MethodNotFound to '$/' requests they do not know, so any response
+   * shows the server is alive. Returns false if the server is judged hung.
+   */
+  async probe(): Promise<boolean> {
+    const client = this.client;
+    if (!client || this.probing) {
+      return true;
+    }
+
+    this.probing = true;
+    try {
+      await client.request('$/ping', undefined, this.options.probeTimeoutMs);
+      return true;
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) {
+        // An error response is still a response
+        return true;
+      }
+      if (this.client === client) {
+        this.hung(`no response to a liveness probe within ${this.options.probeTimeoutMs}ms`);
+      }
+      return false;
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  private hung(reason: string): void {
+    this.stop();
+    this.onHung(reason);
+  }
+}
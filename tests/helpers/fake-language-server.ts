@@ -0,0 +1,42 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+/**
+ * Script for `node -e` that acts as a minimal language server: it answers
+ * initialize and shutdown, leaves fake/wait unanswered and rejects other
+ * requests. While the file named
+ * by its first argument exists, it exits with code 3 after initialization.
+ * With 'hang' as second argument it stops answering once initialized.
+ */
+export const fakeServer = `
+const { existsSync } = require('node:fs');
+let buffer = Buffer.alloc(0);
+let hung = false;
+function send(message) {
+  const body = JSON.stringify(message);
+  process.stdout.write('Content-Length: ' + Buffer.byteLength(body) + '\\r\\n\\r\\n' + body);
+}
+process.stdin.on('data', (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  for (;;) {
+    const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+    if (headerEnd === -1) break;
+    const length = Number(/Content-Length: (\\d+)/i.exec(buffer.subarray(0, headerEnd).toString())[1]);
+    if (buffer.length < headerEnd + 4 + length) break;
+    const message = JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString());
+    buffer = buffer.subarray(headerEnd + 4 + length);
+    if (hung) continue;
+    if (message.method === 'initialize') send({ jsonrpc: '2.0', id: message.id, result: { capabilities: {} } });
+    else if (message.method === 'shutdown') send({ jsonrpc: '2.0', id: message.id, result: null });
+    else if (message.method === 'fake/wait') continue;
+    else if (message.id !== undefined) send({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Unknown method' } });
+    if (message.method === 'exit') process.exit(0);
+    if (message.method === 'initialized' && process.argv[2] === 'hang') hung = true;
+    if (message.method === 'initialized' && existsSync(process.argv[1])) {
+      process.stderr.write('loading index\\nfatal: out of cheese\\n');
+      setTimeout(() => process.exit(3), 50);
+    }
+  }
+});
+`;
@@ -75,31 +75,34 @@ export function sendLSPMessage(stream: MockReadableStream, message: any): void {
 }
 
 /**
- * Helper to parse LSP messages from written data
+ * Helper to parse LSP messages from written data. Content-Length counts
+ * bytes, so the data is sliced as UTF-8.
  */
 export function parseLSPMessages(data: string): any[] {
   const messages: any[] = [];
-  let remaining = data;
+  let remaining = Buffer.from(data, 'utf-8');
 
   while (remaining.length > 0) {
-    const headerMatch = remaining.match(/Content-Length: (\d+)\r\n\r\n/);
+    const headerEnd = remaining.indexOf('\r\n\r\n');
+    if (headerEnd === -1) break;
+
+    const headerMatch = remaining.subarray(0, headerEnd).toString('utf-8').match(/Content-Length: (\d+)/);
     if (!headerMatch) break;
 
     const contentLength = parseInt(headerMatch[1], 10);
-    const headerEnd = remaining.indexOf('\r\n\r\n');
     const messageStart = headerEnd + 4;
     const messageEnd = messageStart + contentLength;
 
     if (remaining.length < messageEnd) break;
 
-    const messageText = remaining.substring(messageStart, messageEnd);
+    const messageText = remaining.subarray(messageStart, messageEnd).toString('utf-8');
     try {
       messages.push(JSON.parse(messageText));
     } catch (e) {
       // Skip malformed messages
     }
 
-    remaining = remaining.substring(messageEnd);
+    remaining = remaining.subarray(messageEnd);
   }
 
   return messages;
@@ -0,0 +1,217 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { ClangdManager } from '../../src/clangd-manager.js';
+import { builtinProfiles } from '../../src/language-servers.js';
+import { ServerDownError } from '../../src/utils/errors.js';
+import { fakeServer } from '../helpers/fake-language-server.js';
+
+describe('ClangdManager', () => {
+  let testDir: string;
+  let crashFile: string;
+  let manager: ClangdManager;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `clangd-manager-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    crashFile = join(testDir, 'crash');
+
+    manager = new ClangdManager({
+      name: 'fake',
+      command: process.execPath,
+      args: ['-e', fakeServer, crashFile],
+      projectRoot: testDir,
+      profile: builtinProfiles.clangd
+    }, {
+      maxRestarts: 1,
+      initialDelayMs: 10,
+      backoff: 'constant',
+      maxDelayMs: 10,
+      stableOperationPeriodMs: 60000
+    });
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Wait until the manager has given up restarting the server
+   */
+  async function waitForGiveUp(): Promise<void> {
+    for (let i = 0; i < 100 && !manager.hasGivenUp(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await manager.waitForRestart();
+    }
+  }
+
+  it('should give up after the policy attempts and keep the crash history', async () => {
+    writeFileSync(crashFile, '');
+    await manager.start();
+    await waitForGiveUp();
+
+    expect(manager.hasGivenUp()).toBe(true);
+    expect(manager.isReady()).toBe(false);
+
+    const crashes = manager.getCrashHistory();
+    expect(crashes).toHaveLength(2);
+    expect(crashes[0].exitCode).toBe(3);
+    expect(crashes[0].stderr).toEqual(['loading index', 'fatal: out of cheese']);
+
+    expect(() => manager.getClient()).toThrow(ServerDownError);
+    try {
+      manager.getClient();
+    } catch (error) {
+      const details = (error as ServerDownError).details;
+      expect((error as Error).message).toMatch(/fake is down.*code 3.*restart_clangd/);
+      expect(details.server).toBe('fake');
+      expect(details.crashes).toHaveLength(2);
+    }
+  }, 15000);
+
+  it('should start again on request and rebuild state through the restart handlers', async () => {
+    writeFileSync(crashFile, '');
+    await manager.start();
+    await waitForGiveUp();
+
+    const rebound: unknown[] = [];
+    manager.onRestart((client) => {
+      rebound.push(client);
+    });
+
+    rmSync(crashFile);
+    await manager.restart();
+
+    expect(manager.hasGivenUp()).toBe(false);
+    expect(manager.isReady()).toBe(true);
+    expect(rebound).toEqual([manager.getClient()]);
+    expect(manager.getCrashHistory()).toHaveLength(2);
+  }, 15000);
+
+  it('should fail requests still waiting for a response when restarted', async () => {
+    await manager.start();
+    const failed = expect(manager.getClient().request('fake/wait', {}, 10000))
+      .rejects.toThrow('fake is being restarted (restarted on request)');
+
+    await manager.restart();
+    await failed;
+  }, 15000);
+
+  describe('watchdog', () => {
+    let hangingManager: ClangdManager;
+
+    beforeEach(() => {
+      hangingManager = new ClangdManager({
+        name: 'fake',
+        command: process.execPath,
+        args: ['-e', fakeServer, crashFile, 'hang'],
+        projectRoot: testDir,
+        profile: builtinProfiles.clangd
+      }, {
+        maxRestarts: 0,
+        initialDelayMs: 10,
+        backoff: 'constant',
+        maxDelayMs: 10,
+        stableOperationPeriodMs: 60000
+      }, {
+        probeIntervalMs: 200,
+        probeTimeoutMs: 100,
+        maxConsecutiveTimeouts: 0
+      });
+    });
+
+    afterEach(async () => {
+      await hangingManager.shutdown();
+    });
+
+    it('should kill a server that does not answer liveness probes and fail its requests', async () => {
+      await hangingManager.start();
+      const pending = hangingManager.getClient().request('textDocument/hover', {}, 10000);
+
+      await expect(pending).rejects.toThrow(/fake stopped responding \(no response to a liveness probe/);
+      for (let i = 0; i < 40 && !hangingManager.hasGivenUp(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+
+      const crashes = hangingManager.getCrashHistory();
+      expect(crashes).toHaveLength(1);
+      expect(crashes[0].signal).toBe('SIGKILL');
+      expect(crashes[0].error).toMatch(/^Not responding: no response to a liveness probe within 100ms/);
+      expect(() => hangingManager.getClient()).toThrow(/Not responding/);
+    }, 15000);
+  });
+
+  describe('memory limit', () => {
+    it('should restart a server above the limit and report why', async () => {
+      const largeManager = new ClangdManager({
+        name: 'fake',
+        command: process.execPath,
+        args: ['-e', fakeServer, crashFile],
+        projectRoot: testDir,
+        profile: builtinProfiles.clangd
+      }, undefined, undefined, { pollIntervalMs: 100, limitBytes: 1 });
+
+      try {
+        const reasons: string[] = [];
+        largeManager.onRestart((_client, reason) => {
+          reasons.push(reason);
+        });
+        await largeManager.start();
+        const firstPid = largeManager.getPid();
+
+        for (let i = 0; i < 100 && reasons.length === 0; i++) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        await largeManager.waitForRestart();
+
+        expect(reasons[0]).toMatch(/^memory use of \d+ MB exceeded the 0 MB limit$/);
+        expect(largeManager.isReady()).toBe(true);
+        expect(largeManager.getPid()).not.toBe(firstPid);
+        expect(largeManager.getCrashHistory()).toEqual([]);
+      } finally {
+        await largeManager.shutdown();
+      }
+    }, 15000);
+
+    it('should wait for tool calls to finish before restarting', async () => {
+      const largeManager = new ClangdManager({
+        name: 'fake',
+        command: process.execPath,
+        args: ['-e', fakeServer, crashFile],
+        projectRoot: testDir,
+        profile: builtinProfiles.clangd
+      }, undefined, undefined, { pollIntervalMs: 100, limitBytes: 1 });
+
+      try {
+        const reasons: string[] = [];
+        largeManager.onRestart((_client, reason) => {
+          reasons.push(reason);
+        });
+        await largeManager.start();
+        const release = largeManager.beginToolCall();
+        const firstPid = largeManager.getPid();
+
+        await new Promise(resolve => setTimeout(resolve, 500));
+        expect(reasons).toEqual([]);
+        expect(largeManager.getPid()).toBe(firstPid);
+
+        release();
+        for (let i = 0; i < 100 && reasons.length === 0; i++) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        await largeManager.waitForRestart();
+        expect(largeManager.getPid()).not.toBe(firstPid);
+      } finally {
+        await largeManager.shutdown();
+      }
+    }, 15000);
+  });
+});
@@ -6,7 +6,7 @@ import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals
 import { FileTracker } from '../../src/file-tracker.js';
 import { LSPClient } from '../../src/lsp-client.js';
 import { MockWritableStream, MockReadableStream, parseLSPMessages } from '../helpers/mock-streams.js';
-import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { writeFileSync, mkdirSync, rmSync, utimesSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
@@ -115,6 +115,88 @@ describe('FileTracker', () => {
     });
   });
 
+  describe('on-disk changes', () => {
+    // Give the file a distinct mtime so the change is noticed immediately
+    function modifyFile(file: string, content: string, secondsAhead: number = 10): void {
+      writeFileSync(file, content);
+      const future = new Date(Date.now() + secondsAhead * 1000);
+      utimesSync(file, future, future);
+    }
+
+    it('should send didChange and didSave with an incremented version when the file changed', async () => {
+      await tracker.ensureFileOpen(testFile);
+      stdin.clear();
+
+      modifyFile(testFile, 'int main() { return 1; }');
+      await tracker.ensureFileOpen(testFile);
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages.map((m) => m.method)).toEqual(['textDocument/didChange', 'textDocument/didSave']);
+      expect(messages[0].params.textDocument.version).toBe(2);
+      expect(messages[0].params.contentChanges).toEqual([{ text: 'int main() { return 1; }' }]);
+    });
+
+    it('should not send didChange when only the mtime changed', async () => {
+      await tracker.ensureFileOpen(testFile);
+      stdin.clear();
+
+      modifyFile(testFile, '// Test C++ file\nint main() { return 0; }');
+      await tracker.ensureFileOpen(testFile);
+
+      expect(parseLSPMessages(stdin.getWrittenData())).toHaveLength(0);
+    });
+
+    it('should invoke the changed callback with the new version', async () => {
+      const changes: Array<[string, number]> = [];
+      tracker.onFileChanged((uri, version) => changes.push([uri, version]));
+
+      const uri = await tracker.ensureFileOpen(testFile);
+      modifyFile(testFile, 'int a;', 10);
+      await tracker.refreshFile(testFile);
+      modifyFile(testFile, 'int b;', 20);
+      await tracker.refreshFile(testFile);
+
+      expect(changes).toEqual([[uri, 2], [uri, 3]]);
+    });
+
+    it('should detect a same-size rewrite with an unchanged mtime on refresh', async () => {
+      const mtime = new Date(2020, 0, 1);
+      utimesSync(testFile, mtime, mtime);
+      await tracker.ensureFileOpen(testFile);
+      stdin.clear();
+
+      writeFileSync(testFile, '// Test C++ file\nint main() { return 1; }');
+      utimesSync(testFile, mtime, mtime);
+      await tracker.refreshFile(testFile);
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages[0]?.method).toBe('textDocument/didChange');
+      expect(messages[0]?.params.contentChanges).toEqual([{ text: '// Test C++ file\nint main() { return 1; }' }]);
+    });
+
+    it('should close the file when it was deleted', async () => {
+      await tracker.ensureFileOpen(testFile);
+      rmSync(testFile);
+
+      await tracker.refreshFile(testFile);
+
+      expect(tracker.isFileOpen(testFile)).toBe(false);
+    });
+
+    it('should sync watched files without being accessed', async () => {
+      const watchingTracker = new FileTracker(client, { watchFiles: true });
+      await watchingTracker.ensureFileOpen(testFile);
+      stdin.clear();
+
+      modifyFile(testFile, 'int watched;');
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages.some((m) => m.method === 'textDocument/didChange')).toBe(true);
+      watchingTracker.closeAll();
+    });
+  });
+
   describe('closeFile', () => {
     it('should send didClose notification for opened file', async () => {
       await tracker.ensureFileOpen(testFile);
@@ -213,6 +295,51 @@ describe('FileTracker', () => {
     });
   });
 
+  describe('rebind', () => {
+    it('should reopen tracked files in the new client, most recent first', async () => {
+      const file1 = join(testDir, 'file1.cpp');
+      writeFileSync(file1, 'int x;');
+      const olderUri = await tracker.ensureFileOpen(file1);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const uri = await tracker.ensureFileOpen(testFile);
+
+      const newStdin = new MockWritableStream();
+      const newStdout = new MockReadableStream();
+      const newClient = new LSPClient(newStdin, newStdout);
+      stdin.clear();
+
+      try {
+        const reopened = await tracker.rebind(newClient);
+
+        expect(reopened).toEqual([uri, olderUri]);
+        expect(stdin.getWrittenData()).toBe('');
+        const didOpens = parseLSPMessages(newStdin.getWrittenData())
+          .filter((m) => m.method === 'textDocument/didOpen');
+        expect(didOpens.map((m) => m.params.textDocument.uri)).toEqual(reopened);
+        expect(didOpens[0].params.textDocument.version).toBe(1);
+        expect(tracker.isFileOpen(testFile)).toBe(true);
+      } finally {
+        tracker.closeAll();
+        newClient.close();
+        newStdin.cleanup();
+        newStdout.cleanup();
+      }
+    });
+
+    it('should forget files that can no longer be read', async () => {
+      const closedUris: string[] = [];
+      tracker.onFileClosed((uri) => closedUris.push(uri));
+      const uri = await tracker.ensureFileOpen(testFile);
+      rmSync(testFile);
+
+      const reopened = await tracker.rebind(client);
+
+      expect(reopened).toEqual([]);
+      expect(closedUris).toEqual([uri]);
+      expect(tracker.isFileOpen(testFile)).toBe(false);
+    });
+  });
+
   describe('onFileClosed callback', () => {
     it('should invoke callback when file is manually closed', async () => {
       const closedUris: string[] = [];
@@ -0,0 +1,154 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  builtinProfiles,
+  getLanguageId,
+  loadLanguageServerProfiles
+} from '../../src/language-servers.js';
+import { detectLanguageServerConfiguration } from '../../src/config-detector.js';
+
+describe('Language servers', () => {
+  let testDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `language-servers-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+
+    originalEnv = { ...process.env };
+    delete process.env.LANGUAGE_SERVER;
+    delete process.env.LANGUAGE_SERVERS_CONFIG;
+    delete process.env.RUST_ANALYZER_PATH;
+    delete process.env.RUST_ANALYZER_ARGS;
+    process.env.PROJECT_ROOT = testDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('getLanguageId', () => {
+    it('should map extensions using the profile', () => {
+      expect(getLanguageId(builtinProfiles.clangd, '/src/foo.cc')).toBe('cpp');
+      expect(getLanguageId(builtinProfiles.clangd, '/src/foo.c')).toBe('c');
+      expect(getLanguageId(builtinProfiles.clangd, '/src/foo.mm')).toBe('objective-cpp');
+      expect(getLanguageId(builtinProfiles['rust-analyzer'], '/src/lib.rs')).toBe('rust');
+      expect(getLanguageId(builtinProfiles['typescript-language-server'], '/src/app.TSX')).toBe('typescriptreact');
+    });
+
+    it('should fall back to the default language ID', () => {
+      expect(getLanguageId(builtinProfiles.clangd, '/src/vector')).toBe('cpp');
+    });
+  });
+
+  describe('loadLanguageServerProfiles', () => {
+    it('should include the built-in profiles', () => {
+      const profiles = loadLanguageServerProfiles(testDir);
+      expect(Object.keys(profiles)).toEqual(
+        expect.arrayContaining(['clangd', 'rust-analyzer', 'pyright', 'gopls', 'typescript-language-server'])
+      );
+    });
+
+    it('should load custom servers from the project config file', () => {
+      process.env.LANGUAGE_SERVERS_CONFIG = '.language-servers.json';
+      writeFileSync(join(testDir, '.language-servers.json'), JSON.stringify({
+        servers: {
+          zls: { command: 'zls', extensions: { '.zig': 'zig' } }
+        }
+      }));
+
+      const profiles = loadLanguageServerProfiles(testDir);
+      expect(profiles.zls).toEqual({
+        name: 'zls',
+        command: 'zls',
+        args: [],
+        extensions: { zig: 'zig' },
+        defaultLanguageId: undefined,
+        initializationOptions: undefined
+      });
+    });
+
+    it('should not read the project config file unless LANGUAGE_SERVERS_CONFIG names it', () => {
+      writeFileSync(join(testDir, '.language-servers.json'), JSON.stringify({
+        servers: {
+          zls: { command: 'zls', extensions: { zig: 'zig' } }
+        }
+      }));
+
+      const profiles = loadLanguageServerProfiles(testDir);
+      expect(profiles.zls).toBeUndefined();
+    });
+
+    it('should merge overrides of built-in profiles', () => {
+      const configPath = join(testDir, 'servers.json');
+      writeFileSync(configPath, JSON.stringify({
+        servers: {
+          pyright: { command: 'basedpyright-langserver', initializationOptions: { strict: true } }
+        }
+      }));
+      process.env.LANGUAGE_SERVERS_CONFIG = configPath;
+
+      const profiles = loadLanguageServerProfiles(testDir);
+      expect(profiles.pyright.command).toBe('basedpyright-langserver');
+      expect(profiles.pyright.args).toEqual(['--stdio']);
+      expect(profiles.pyright.extensions).toEqual(builtinProfiles.pyright.extensions);
+      expect(profiles.pyright.initializationOptions).toEqual({ strict: true });
+    });
+
+    it('should skip invalid entries', () => {
+      process.env.LANGUAGE_SERVERS_CONFIG = '.language-servers.json';
+      writeFileSync(join(testDir, '.language-servers.json'), JSON.stringify({
+        servers: {
+          broken: { args: [] },
+          zls: { command: 'zls', extensions: { zig: 'zig' } }
+        }
+      }));
+
+      const profiles = loadLanguageServerProfiles(testDir);
+      expect(profiles.broken).toBeUndefined();
+      expect(profiles.zls).toBeDefined();
+    });
+
+    it('should ignore malformed config files', () => {
+      process.env.LANGUAGE_SERVERS_CONFIG = '.language-servers.json';
+      writeFileSync(join(testDir, '.language-servers.json'), '{ not json');
+
+      const profiles = loadLanguageServerProfiles(testDir);
+      expect(Object.keys(profiles)).toEqual(Object.keys(builtinProfiles));
+    });
+  });
+
+  describe('detectLanguageServerConfiguration', () => {
+    it('should use the server selected by LANGUAGE_SERVER', () => {
+      process.env.LANGUAGE_SERVER = 'pyright';
+
+      const config = detectLanguageServerConfiguration();
+      expect(config.name).toBe('pyright');
+      expect(config.command).toBe('pyright-langserver');
+      expect(config.args).toEqual(['--stdio']);
+      expect(config.projectRoot).toBe(testDir);
+    });
+
+    it('should apply <NAME>_PATH and <NAME>_ARGS overrides', () => {
+      process.env.RUST_ANALYZER_PATH = '/opt/rust-analyzer';
+      process.env.RUST_ANALYZER_ARGS = '--log-file "/tmp/ra log"';
+
+      const config = detectLanguageServerConfiguration('rust-analyzer');
+      expect(config.command).toBe('/opt/rust-analyzer');
+      expect(config.args).toEqual(['--log-file', '/tmp/ra log']);
+    });
+
+    it('should throw for unknown servers', () => {
+      expect(() => detectLanguageServerConfiguration('nope')).toThrow(/Unknown language server 'nope'/);
+    });
+  });
+});
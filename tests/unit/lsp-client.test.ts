@@ -4,7 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { LSPClient } from '../../src/lsp-client.js';
-import { LSPError } from '../../src/utils/errors.js';
+import { CancelledError, LSPError } from '../../src/utils/errors.js';
 import {
   MockWritableStream,
   MockReadableStream,
@@ -117,6 +117,49 @@ describe('LSPClient', () => {
       await expect(responsePromise).rejects.toThrow('timed out');
     }, 1000);
 
+    it('should send $/cancelRequest when a request times out', async () => {
+      const responsePromise = client.request('test/method', {}, { timeoutMs: 50 });
+
+      await expect(responsePromise).rejects.toThrow('timed out');
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages[1]).toEqual({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: messages[0].id } });
+    }, 1000);
+
+    it('should cancel the request when its signal is aborted', async () => {
+      const controller = new AbortController();
+      const responsePromise = client.request('textDocument/references', {}, { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(responsePromise).rejects.toBeInstanceOf(CancelledError);
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages[1]).toEqual({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: messages[0].id } });
+
+      // The server's late reply is dropped quietly
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: messages[0].id, error: { code: -32800, message: 'Request cancelled' } });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+
+    it('should not send requests whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.request('test/method', {}, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+      expect(parseLSPMessages(stdin.getWrittenData())).toEqual([]);
+    });
+
+    it('should not cancel requests the server answered with an error', async () => {
+      const responsePromise = client.request('test/method');
+      const messages = parseLSPMessages(stdin.getWrittenData());
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: messages[0].id, error: { code: -32602, message: 'Invalid params' } });
+
+      await expect(responsePromise).rejects.toBeInstanceOf(LSPError);
+      expect(parseLSPMessages(stdin.getWrittenData())).toHaveLength(1);
+    });
+
     it('should handle concurrent requests correctly', async () => {
       const promise1 = client.request('method1');
       const promise2 = client.request('method2');
@@ -233,6 +276,226 @@ describe('LSPClient', () => {
     });
   });
 
+  describe('onRequest', () => {
+    it('should reply to server requests with the handler result', async () => {
+      client.onRequest('workspace/applyEdit', async (params) => ({ applied: params.edit !== undefined }));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'workspace/applyEdit',
+        params: { edit: {} },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages).toContainEqual({ jsonrpc: '2.0', id: 7, result: { applied: true } });
+    });
+
+    it('should restore the previous handler when disposed', async () => {
+      client.onRequest('test/request', () => 'first');
+      const restore = client.onRequest('test/request', () => 'second');
+      restore();
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, method: 'test/request' });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages).toContainEqual({ jsonrpc: '2.0', id: 1, result: 'first' });
+    });
+
+    it('should answer common server requests by default', async () => {
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, method: 'window/workDoneProgress/create', params: { token: 'idx' } });
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'workspace/configuration',
+        params: { items: [{ section: 'clangd' }, { section: 'files' }] },
+      });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 3, method: 'client/registerCapability', params: { registrations: [] } });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 4, method: 'workspace/applyEdit', params: { edit: {} } });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages).toContainEqual({ jsonrpc: '2.0', id: 1, result: null });
+      expect(messages).toContainEqual({ jsonrpc: '2.0', id: 2, result: [null, null] });
+      expect(messages).toContainEqual({ jsonrpc: '2.0', id: 3, result: null });
+      expect(messages.find((message) => message.id === 4).result.applied).toBe(false);
+    });
+
+    it('should restore the default handler when disposed', async () => {
+      const restore = client.onRequest('workspace/applyEdit', () => ({ applied: true }));
+      restore();
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, method: 'workspace/applyEdit', params: { edit: {} } });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages[0].result.applied).toBe(false);
+    });
+
+    it('should reply MethodNotFound to requests without a handler', async () => {
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 5, method: 'custom/unknown' });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({ jsonrpc: '2.0', id: 5, error: { code: -32601 } });
+    });
+
+    it('should reply with the code of an LSPError thrown by the handler', async () => {
+      client.onRequest('test/request', () => {
+        throw new LSPError('Request cancelled', -32800, { reason: 'test' });
+      });
+      client.onRequest('test/failing', () => {
+        throw new Error('boom');
+      });
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, method: 'test/request' });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 2, method: 'test/failing' });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const messages = parseLSPMessages(stdin.getWrittenData());
+      expect(messages).toContainEqual({
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: -32800, message: 'Request cancelled', data: { reason: 'test' } },
+      });
+      expect(messages).toContainEqual({
+        jsonrpc: '2.0',
+        id: 2,
+        error: { code: -32603, message: 'boom' },
+      });
+    });
+  });
+
+  describe('message framing', () => {
+    function frame(message: any, header?: string): Buffer {
+      const content = Buffer.from(JSON.stringify(message), 'utf-8');
+      return Buffer.concat([
+        Buffer.from(header ?? `Content-Length: ${content.length}\r\n\r\n`, 'ascii'),
+        content
+      ]);
+    }
+
+    it('should slice content by bytes when it contains multi-byte characters', async () => {
+      const responsePromise = client.request('textDocument/hover');
+      const id = parseLSPMessages(stdin.getWrittenData())[0].id;
+
+      // Two-, three- and four-byte characters, followed by a second message
+      const hover = 'Returns the naïve → estimate 😀';
+      const received: any[] = [];
+      client.onNotification('test/after', (params) => received.push(params));
+      stdout.pushData(Buffer.concat([
+        frame({ jsonrpc: '2.0', id, result: hover }),
+        frame({ jsonrpc: '2.0', method: 'test/after', params: 'ok' })
+      ]));
+
+      await expect(responsePromise).resolves.toBe(hover);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(received).toEqual(['ok']);
+    });
+
+    it('should decode multi-byte characters split across chunks', async () => {
+      const responsePromise = client.request('textDocument/hover');
+      const id = parseLSPMessages(stdin.getWrittenData())[0].id;
+
+      const data = frame({ jsonrpc: '2.0', id, result: '/src/Ünïcode/😀.cc' });
+      const emoji = data.indexOf(Buffer.from('😀'));
+
+      // Split inside the Ü and inside the emoji
+      const splits = [data.indexOf(Buffer.from('Ü')) + 1, emoji + 1, emoji + 3];
+      let start = 0;
+      for (const end of [...splits, data.length]) {
+        stdout.pushData(data.subarray(start, end));
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        start = end;
+      }
+
+      await expect(responsePromise).resolves.toBe('/src/Ünïcode/😀.cc');
+    });
+
+    it('should parse header names case-insensitively and accept Content-Type', async () => {
+      const responsePromise = client.request('test/method');
+      const id = parseLSPMessages(stdin.getWrittenData())[0].id;
+
+      const content = JSON.stringify({ jsonrpc: '2.0', id, result: 'é' });
+      stdout.pushData(frame(
+        { jsonrpc: '2.0', id, result: 'é' },
+        `content-length: ${Buffer.byteLength(content)}\r\nContent-Type: application/vscode-jsonrpc; charset=utf-8\r\n\r\n`
+      ));
+
+      await expect(responsePromise).resolves.toBe('é');
+    });
+
+    it('should skip a header without a valid Content-Length', async () => {
+      const responsePromise = client.request('test/method');
+      const id = parseLSPMessages(stdin.getWrittenData())[0].id;
+
+      stdout.pushData(Buffer.concat([
+        Buffer.from('Content-Type: application/vscode-jsonrpc\r\n\r\n'),
+        frame({ jsonrpc: '2.0', id, result: 'success' })
+      ]));
+
+      await expect(responsePromise).resolves.toBe('success');
+    });
+
+    it('should assemble a multi-megabyte message from many chunks', async () => {
+      const responsePromise = client.request('textDocument/references');
+      const id = parseLSPMessages(stdin.getWrittenData())[0].id;
+
+      const locations = Array.from({ length: 40000 }, (_, i) => ({
+        uri: `file:///src/ä/file${i}.cc`,
+        range: { start: { line: i, character: 0 }, end: { line: i, character: 4 } }
+      }));
+      const data = frame({ jsonrpc: '2.0', id, result: locations });
+      expect(data.length).toBeGreaterThan(4 * 1024 * 1024);
+
+      for (let offset = 0; offset < data.length; offset += 65536) {
+        stdout.pushData(data.subarray(offset, offset + 65536));
+      }
+
+      const result = await responsePromise;
+      expect(result).toHaveLength(40000);
+      expect(result[39999].uri).toBe('file:///src/ä/file39999.cc');
+    });
+  });
+
+  describe('onTimeout', () => {
+    it('should count requests that time out in a row until a response arrives', async () => {
+      const timeouts: Array<[string, number]> = [];
+      client.onTimeout((method, consecutiveTimeouts) => timeouts.push([method, consecutiveTimeouts]));
+
+      await expect(client.request('first', {}, 20)).rejects.toThrow('timed out');
+      await expect(client.request('second', {}, 20)).rejects.toThrow('timed out');
+
+      const answered = client.request('third', {}, 1000);
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 3, result: null });
+      await answered;
+      await expect(client.request('fourth', {}, 20)).rejects.toThrow('timed out');
+
+      expect(timeouts).toEqual([['first', 1], ['second', 2], ['fourth', 1]]);
+    });
+  });
+
+  describe('failPendingRequests', () => {
+    it('should reject every pending request with the given error', async () => {
+      const first = client.request('first', {}, 1000);
+      const second = client.request('second', {}, 1000);
+
+      client.failPendingRequests(new Error('server killed'));
+
+      await expect(first).rejects.toThrow('server killed');
+      await expect(second).rejects.toThrow('server killed');
+    });
+  });
+
   describe('stream lifecycle', () => {
     it('should reject pending requests on stream end', async () => {
       const promise1 = client.request('method1');
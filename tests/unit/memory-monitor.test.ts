@@ -0,0 +1,101 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { MemoryMonitor, MemorySample, readProcessRss } from '../../src/memory-monitor.js';
+import { LSPClient } from '../../src/lsp-client.js';
+import { MockWritableStream, MockReadableStream, sendLSPMessage, parseLSPMessages } from '../helpers/mock-streams.js';
+
+describe('MemoryMonitor', () => {
+  let stdin: MockWritableStream;
+  let stdout: MockReadableStream;
+  let client: LSPClient;
+  let monitor: MemoryMonitor | undefined;
+
+  beforeEach(() => {
+    stdin = new MockWritableStream();
+    stdout = new MockReadableStream();
+    client = new LSPClient(stdin, stdout);
+  });
+
+  afterEach(() => {
+    monitor?.stop();
+    // Samples still waiting for an answer would otherwise hold their timers
+    client.failPendingRequests(new Error('Test finished'));
+    client.close();
+    stdin.cleanup();
+    stdout.cleanup();
+  });
+
+  /**
+   * Answer the next $/memoryUsage request once it was sent
+   */
+  async function answerMemoryUsage(reply: object): Promise<void> {
+    for (let i = 0; i < 100; i++) {
+      const request = parseLSPMessages(stdin.getWrittenData()).find(m => m.method === '$/memoryUsage');
+      if (request) {
+        stdin.clear();
+        sendLSPMessage(stdout, { jsonrpc: '2.0', id: request.id, ...reply });
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('No $/memoryUsage request was sent');
+  }
+
+  it('should read the resident size of a process', async () => {
+    const rss = await readProcessRss(process.pid);
+    if (process.platform === 'linux') {
+      expect(rss).toBeGreaterThan(0);
+    } else {
+      expect(rss).toBeUndefined();
+    }
+  });
+
+  it('should sample RSS and the server memory tree by component', async () => {
+    monitor = new MemoryMonitor({ pollIntervalMs: 0, limitBytes: 0 }, () => {});
+    monitor.start(client, process.pid);
+
+    const sample = monitor.sample();
+    await answerMemoryUsage({
+      result: {
+        _self: 0,
+        _total: 3072,
+        dynamic_index: { _self: 1024, _total: 2048 },
+        tuscheduler: { _self: 1024, _total: 1024 }
+      }
+    });
+
+    expect(await sample).toMatchObject({
+      serverBytes: 3072,
+      components: { dynamic_index: 2048, tuscheduler: 1024 }
+    });
+    expect(monitor.getLastSample()?.serverBytes).toBe(3072);
+  });
+
+  it('should stop asking servers that do not implement $/memoryUsage', async () => {
+    monitor = new MemoryMonitor({ pollIntervalMs: 0, limitBytes: 0 }, () => {});
+    monitor.start(client, undefined);
+
+    const first = monitor.sample();
+    await answerMemoryUsage({ error: { code: -32601, message: 'Unknown method' } });
+    expect((await first)?.serverBytes).toBeUndefined();
+
+    await monitor.sample();
+    expect(parseLSPMessages(stdin.getWrittenData())).toEqual([]);
+  });
+
+  it('should report samples above the limit', async () => {
+    const exceeded: MemorySample[] = [];
+    monitor = new MemoryMonitor({ pollIntervalMs: 20, limitBytes: 2048 }, sample => exceeded.push(sample));
+    monitor.start(client, undefined);
+
+    await answerMemoryUsage({ result: { _self: 4096, _total: 4096 } });
+    for (let i = 0; i < 50 && exceeded.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    expect(exceeded[0]?.serverBytes).toBe(4096);
+  });
+});
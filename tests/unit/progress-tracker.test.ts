@@ -0,0 +1,79 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ProgressTracker } from '../../src/progress-tracker.js';
+
+describe('ProgressTracker', () => {
+  let tracker: ProgressTracker;
+
+  beforeEach(() => {
+    tracker = new ProgressTracker();
+  });
+
+  it('should report no indexing before any progress', () => {
+    expect(tracker.getIndexStatus()).toEqual({ indexing: false, lastCompletedAt: undefined });
+    expect(tracker.getOperations()).toEqual([]);
+  });
+
+  it('should follow clangd background indexing from begin to end', () => {
+    tracker.handleProgress({
+      token: 'backgroundIndexProgress',
+      value: { kind: 'begin', title: 'indexing', percentage: 0 }
+    });
+    tracker.handleProgress({
+      token: 'backgroundIndexProgress',
+      value: { kind: 'report', message: '12/120', percentage: 10 }
+    });
+
+    expect(tracker.getIndexStatus()).toMatchObject({ indexing: true, percentage: 10, message: '12/120' });
+
+    // Omitted report fields keep their previous values
+    tracker.handleProgress({ token: 'backgroundIndexProgress', value: { kind: 'report', percentage: 50 } });
+    expect(tracker.getIndexStatus()).toMatchObject({ indexing: true, percentage: 50, message: '12/120' });
+
+    tracker.handleProgress({ token: 'backgroundIndexProgress', value: { kind: 'end' } });
+
+    const status = tracker.getIndexStatus();
+    expect(status.indexing).toBe(false);
+    expect(status.lastCompletedAt).toBeDefined();
+    expect(tracker.getOperations()).toEqual([]);
+  });
+
+  it('should recognize indexing operations by title', () => {
+    tracker.handleProgress({ token: 1, value: { kind: 'begin', title: 'Indexing workspace' } });
+
+    expect(tracker.getIndexStatus()).toMatchObject({ indexing: true, message: 'Indexing workspace' });
+  });
+
+  it('should track other operations without reporting them as indexing', () => {
+    tracker.handleProgress({ token: 2, value: { kind: 'begin', title: 'Building preamble', message: 'foo.cc' } });
+
+    expect(tracker.getIndexStatus().indexing).toBe(false);
+    expect(tracker.getOperations()).toMatchObject([{ token: 2, title: 'Building preamble', message: 'foo.cc' }]);
+  });
+
+  it('should report the least advanced of several indexing operations', () => {
+    tracker.handleProgress({ token: 'a', value: { kind: 'begin', title: 'indexing', percentage: 80 } });
+    tracker.handleProgress({ token: 'b', value: { kind: 'begin', title: 'indexing', percentage: 20 } });
+
+    expect(tracker.getIndexStatus().percentage).toBe(20);
+  });
+
+  it('should ignore reports and ends for unknown tokens and malformed values', () => {
+    tracker.handleProgress({ token: 'x', value: { kind: 'report', percentage: 5 } });
+    tracker.handleProgress({ token: 'x', value: { kind: 'end' } });
+    tracker.handleProgress({ token: 'y', value: null });
+
+    expect(tracker.getOperations()).toEqual([]);
+    expect(tracker.getIndexStatus().lastCompletedAt).toBeUndefined();
+  });
+
+  it('should forget operations when cleared', () => {
+    tracker.handleProgress({ token: 'backgroundIndexProgress', value: { kind: 'begin', title: 'indexing' } });
+    tracker.clear();
+
+    expect(tracker.getIndexStatus().indexing).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { LanguageServerRegistry } from '../../src/server-registry.js';
+import { fakeServer } from '../helpers/fake-language-server.js';
+
+describe('LanguageServerRegistry', () => {
+  let testDir: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `server-registry-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+
+    originalEnv = { ...process.env };
+    delete process.env.LANGUAGE_SERVERS_CONFIG;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeFakeServerConfig() {
+    process.env.PROJECT_ROOT = testDir;
+    process.env.LANGUAGE_SERVERS_CONFIG = '.language-servers.json';
+    writeFileSync(join(testDir, '.language-servers.json'), JSON.stringify({
+      servers: {
+        fake: {
+          command: process.execPath,
+          args: ['-e', fakeServer, join(testDir, 'no-crash')],
+          extensions: { fake: 'fake' }
+        }
+      }
+    }));
+  }
+
+  describe('getServerNameForFile', () => {
+    it('should route files to the server claiming their extension', () => {
+      const registry = new LanguageServerRegistry(testDir, { defaultServer: 'clangd' });
+
+      expect(registry.getServerNameForFile('/src/net/http.cc')).toBe('clangd');
+      expect(registry.getServerNameForFile('/src/lib.rs')).toBe('rust-analyzer');
+      expect(registry.getServerNameForFile('/tools/build.py')).toBe('pyright');
+      expect(registry.getServerNameForFile('/cmd/main.go')).toBe('gopls');
+      expect(registry.getServerNameForFile('/web/app.tsx')).toBe('typescript-language-server');
+    });
+
+    it('should route unknown extensions to the default server', () => {
+      const registry = new LanguageServerRegistry(testDir, { defaultServer: 'clangd' });
+
+      expect(registry.getServerNameForFile('/usr/include/c++/vector')).toBe('clangd');
+      expect(registry.getServerNameForFile('/src/README.md')).toBe('clangd');
+    });
+
+    it('should only route to enabled servers', () => {
+      const registry = new LanguageServerRegistry(testDir, {
+        defaultServer: 'clangd',
+        enabledServers: ['clangd', 'gopls']
+      });
+
+      expect(registry.getServerNameForFile('/cmd/main.go')).toBe('gopls');
+      expect(registry.getServerNameForFile('/src/lib.rs')).toBe('clangd');
+    });
+
+    it('should let the default server claim shared extensions', () => {
+      process.env.LANGUAGE_SERVERS_CONFIG = '.language-servers.json';
+      writeFileSync(join(testDir, '.language-servers.json'), JSON.stringify({
+        servers: {
+          ccls: { command: 'ccls', extensions: { cc: 'cpp', h: 'cpp' } }
+        }
+      }));
+
+      const clangdFirst = new LanguageServerRegistry(testDir, { defaultServer: 'clangd' });
+      expect(clangdFirst.getServerNameForFile('/src/foo.cc')).toBe('clangd');
+
+      const cclsFirst = new LanguageServerRegistry(testDir, { defaultServer: 'ccls' });
+      expect(cclsFirst.getServerNameForFile('/src/foo.cc')).toBe('ccls');
+    });
+
+    it('should reject an unknown default server', () => {
+      expect(() => new LanguageServerRegistry(testDir, { defaultServer: 'nope' }))
+        .toThrow(/Unknown language server 'nope'/);
+    });
+  });
+
+  describe('getRunningSessions', () => {
+    it('should be empty before any server is started', () => {
+      const registry = new LanguageServerRegistry(testDir, { defaultServer: 'clangd' });
+      expect(registry.getRunningSessions()).toEqual([]);
+    });
+  });
+
+  describe('stopIdleSessions', () => {
+    let registry: LanguageServerRegistry;
+
+    beforeEach(() => {
+      writeFakeServerConfig();
+      registry = new LanguageServerRegistry(testDir, { defaultServer: 'fake', idleTimeoutMs: 60000 });
+    });
+
+    afterEach(async () => {
+      await registry.shutdown();
+    });
+
+    it('should stop idle servers and note the cold start when one is used again', async () => {
+      const first = await registry.getSession('fake');
+
+      await registry.stopIdleSessions(Date.now() + 30000);
+      expect(registry.getRunningSessions()).toEqual([first]);
+      expect(first.coldStart).toBeUndefined();
+
+      await registry.stopIdleSessions(Date.now() + 60000);
+      expect(registry.getRunningSessions()).toEqual([]);
+      expect(first.manager.isReady()).toBe(false);
+
+      const second = await registry.getSession('fake');
+      expect(second).not.toBe(first);
+      expect(second.manager.isReady()).toBe(true);
+      expect(second.coldStart?.startupMs).toBeGreaterThanOrEqual(0);
+    }, 15000);
+
+    it('should count workspace searches as use', async () => {
+      const session = await registry.getSession('fake');
+      const firstUse = Date.now();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(await registry.getSearchSessions()).toEqual([session]);
+      await registry.stopIdleSessions(firstUse + 60010);
+
+      expect(registry.getRunningSessions()).toEqual([session]);
+    }, 15000);
+  });
+
+  describe('restartServer', () => {
+    let registry: LanguageServerRegistry;
+
+    beforeEach(() => {
+      writeFakeServerConfig();
+      registry = new LanguageServerRegistry(testDir, { defaultServer: 'fake' });
+    });
+
+    afterEach(async () => {
+      await registry.shutdown();
+    });
+
+    it('should make concurrent calls wait for the restart instead of starting another server', async () => {
+      const session = await registry.getSession('fake');
+      const oldPid = session.manager.getPid();
+
+      const restarting = registry.restartServer('fake');
+      // Ask once the old server is gone and the new one not yet started
+      for (let i = 0; i < 100 && session.manager.isReady(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(session.manager.isReady()).toBe(false);
+      const during = await registry.getSession('fake');
+      const restarted = await restarting;
+
+      expect(during).toBe(session);
+      expect(restarted).toBe(session);
+      expect(registry.getSessions()).toEqual([session]);
+      expect(session.manager.isReady()).toBe(true);
+      expect(session.manager.getPid()).not.toBe(oldPid);
+      expect(session.restart?.reason).toBe('restarted on request');
+    }, 15000);
+  });
+});
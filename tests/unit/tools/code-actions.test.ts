@@ -0,0 +1,272 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { getCodeActions, applyCodeAction } from '../../../src/tools/code-actions.js';
+import { DiagnosticsCache } from '../../../src/tools/get-diagnostics.js';
+import { FileTracker } from '../../../src/file-tracker.js';
+import { LSPClient } from '../../../src/lsp-client.js';
+import { pathToUri } from '../../../src/utils/uri.js';
+import {
+  MockWritableStream,
+  MockReadableStream,
+  sendLSPMessage,
+  parseLSPMessages
+} from '../../helpers/mock-streams.js';
+import { mockDiagnostics } from '../../helpers/mock-lsp-responses.js';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('code-actions', () => {
+  let client: LSPClient;
+  let fileTracker: FileTracker;
+  let diagnosticsCache: DiagnosticsCache;
+  let stdin: MockWritableStream;
+  let stdout: MockReadableStream;
+  let testDir: string;
+  let testFile: string;
+
+  const range = {
+    start: { line: 10, character: 5 },
+    end: { line: 10, character: 5 }
+  };
+
+  beforeEach(() => {
+    stdin = new MockWritableStream();
+    stdout = new MockReadableStream();
+    client = new LSPClient(stdin, stdout);
+    fileTracker = new FileTracker(client);
+    diagnosticsCache = new DiagnosticsCache(client);
+
+    // Create temp test file
+    testDir = join(tmpdir(), `code-actions-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    testFile = join(testDir, 'test.cpp');
+    writeFileSync(testFile, 'auto x = 1;\n');
+  });
+
+  afterEach(() => {
+    fileTracker.closeAll();
+    client.close();
+    stdin.cleanup();
+    stdout.cleanup();
+    if (testDir) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  function findRequest(method: string) {
+    return parseLSPMessages(stdin.getWrittenData()).find(m => m.method === method);
+  }
+
+  function findRequests(method: string) {
+    return parseLSPMessages(stdin.getWrittenData()).filter(m => m.method === method);
+  }
+
+  /**
+   * Edit replacing the 'auto' at the start of the test file
+   */
+  function edit(newText: string) {
+    return { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } }, newText };
+  }
+
+  describe('getCodeActions', () => {
+    it('should list code actions and commands', async () => {
+      const promise = getCodeActions(client, fileTracker, diagnosticsCache, testFile, range);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: [
+          { title: 'Add #include', kind: 'quickfix', isPreferred: true, edit: { changes: {} } },
+          { title: 'Expand auto type', command: 'clangd.applyTweak', arguments: [] }
+        ]
+      });
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.found).toBe(true);
+      expect(parsed.count).toBe(2);
+      expect(parsed.actions[0]).toMatchObject({ index: 0, title: 'Add #include', is_preferred: true, has_edit: true });
+      expect(parsed.actions[1]).toMatchObject({ index: 1, title: 'Expand auto type', command: 'clangd.applyTweak' });
+    });
+
+    it('should send cached diagnostics overlapping the range', async () => {
+      const uri = pathToUri(testFile);
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        method: 'textDocument/publishDiagnostics',
+        params: { uri, diagnostics: mockDiagnostics }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const promise = getCodeActions(client, fileTracker, diagnosticsCache, testFile, range);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const request = findRequest('textDocument/codeAction');
+      expect(request.params.context.diagnostics).toHaveLength(1);
+      expect(request.params.context.diagnostics[0].message).toBe(mockDiagnostics[0].message);
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: request.id, result: [] });
+
+      const parsed = JSON.parse(await promise);
+      expect(parsed.found).toBe(false);
+    });
+  });
+
+  describe('applyCodeAction', () => {
+    it('should capture edits sent through workspace/applyEdit by a command', async () => {
+      const promise = applyCodeAction(
+        client, fileTracker, diagnosticsCache, testFile, range, { index: 0 }, true
+      );
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: [{ title: 'Expand auto type', command: 'clangd.applyTweak', arguments: [{ tweakID: 'ExpandAutoType' }] }]
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const executeCommand = findRequest('workspace/executeCommand');
+      expect(executeCommand.params.command).toBe('clangd.applyTweak');
+
+      // clangd sends the tweak's edit back as a server request
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 'apply-1',
+        method: 'workspace/applyEdit',
+        params: {
+          edit: {
+            changes: {
+              [pathToUri(testFile)]: [{
+                range: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } },
+                newText: 'int'
+              }]
+            }
+          }
+        }
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const reply = parseLSPMessages(stdin.getWrittenData()).find(m => m.id === 'apply-1');
+      expect(reply.result).toEqual({ applied: true });
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: executeCommand.id, result: 'Tweak applied.' });
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.applied).toBe(true);
+      expect(parsed.edit_count).toBe(1);
+      expect(parsed.files[0].edits[0].after).toBe('int x = 1;');
+      expect(readFileSync(testFile, 'utf-8')).toBe('int x = 1;\n');
+    });
+
+    it('should not report previewed edits as applied', async () => {
+      const promise = applyCodeAction(
+        client, fileTracker, diagnosticsCache, testFile, range, { index: 0 }
+      );
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: [{ title: 'Expand auto type', command: 'clangd.applyTweak', arguments: [] }]
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 'apply-1',
+        method: 'workspace/applyEdit',
+        params: { edit: { changes: { [pathToUri(testFile)]: [edit('int')] } } }
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const reply = parseLSPMessages(stdin.getWrittenData()).find(m => m.id === 'apply-1');
+      expect(reply.result.applied).toBe(false);
+
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: findRequest('workspace/executeCommand').id, result: null });
+
+      const parsed = JSON.parse(await promise);
+      expect(parsed.applied).toBe(false);
+      expect(readFileSync(testFile, 'utf-8')).toBe('auto x = 1;\n');
+    });
+
+    it('should give each of two overlapping commands its own edits', async () => {
+      const first = applyCodeAction(client, fileTracker, diagnosticsCache, testFile, range, { index: 0 });
+      const second = applyCodeAction(client, fileTracker, diagnosticsCache, testFile, range, { index: 0 });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      for (const request of findRequests('textDocument/codeAction')) {
+        sendLSPMessage(stdout, {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: [{ title: 'Expand auto type', command: 'clangd.applyTweak', arguments: [] }]
+        });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // The second command is only sent once the first one has finished
+      const commands = findRequests('workspace/executeCommand');
+      expect(commands).toHaveLength(1);
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 'apply-1',
+        method: 'workspace/applyEdit',
+        params: { edit: { changes: { [pathToUri(testFile)]: [edit('int')] } } }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: commands[0].id, result: null });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const nextCommands = findRequests('workspace/executeCommand');
+      expect(nextCommands).toHaveLength(2);
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 'apply-2',
+        method: 'workspace/applyEdit',
+        params: { edit: { changes: { [pathToUri(testFile)]: [edit('long')] } } }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: nextCommands[1].id, result: null });
+
+      const results = [JSON.parse(await first), JSON.parse(await second)];
+      expect(results.map(result => result.files[0].edits[0].after)).toEqual(['int x = 1;', 'long x = 1;']);
+      expect(results.map(result => result.edit_count)).toEqual([1, 1]);
+    });
+
+    it('should report unknown action titles with the available actions', async () => {
+      const promise = applyCodeAction(
+        client, fileTracker, diagnosticsCache, testFile, range, { title: 'Missing' }
+      );
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: [{ title: 'Expand auto type', command: 'clangd.applyTweak' }]
+      });
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.available).toEqual([{ index: 0, title: 'Expand auto type' }]);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { getCallGraph } from '../../../src/tools/get-call-graph.js';
+import { FileTracker } from '../../../src/file-tracker.js';
+import { LSPClient } from '../../../src/lsp-client.js';
+import { CancelledError } from '../../../src/utils/errors.js';
+import {
+  MockWritableStream,
+  MockReadableStream,
+  sendLSPMessage,
+  parseLSPMessages
+} from '../../helpers/mock-streams.js';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+function item(name: string, line: number) {
+  return {
+    name,
+    kind: 12,
+    uri: 'file:///src/graph.cc',
+    range: { start: { line, character: 0 }, end: { line: line + 3, character: 1 } },
+    selectionRange: { start: { line, character: 5 }, end: { line, character: 5 + name.length } }
+  };
+}
+
+function call(from: ReturnType<typeof item>, line: number) {
+  return { from, fromRanges: [{ start: { line, character: 2 }, end: { line, character: 6 } }] };
+}
+
+describe('get-call-graph', () => {
+  let client: LSPClient;
+  let fileTracker: FileTracker;
+  let stdin: MockWritableStream;
+  let stdout: MockReadableStream;
+  let testDir: string;
+  let testFile: string;
+
+  const a = item('a', 0);
+  const b = item('b', 10);
+  const c = item('c', 20);
+
+  // a <- b, a <- c, b <- c, c <- a: every function is on a cycle
+  const callers: Record<string, any[]> = {
+    a: [call(b, 11), call(c, 21)],
+    b: [call(c, 22)],
+    c: [call(a, 1)]
+  };
+
+  beforeEach(() => {
+    stdin = new MockWritableStream();
+    stdout = new MockReadableStream();
+    client = new LSPClient(stdin, stdout);
+    fileTracker = new FileTracker(client);
+
+    testDir = join(tmpdir(), `call-graph-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    testFile = join(testDir, 'graph.cc');
+    writeFileSync(testFile, 'void a() { }');
+  });
+
+  afterEach(() => {
+    fileTracker.closeAll();
+    client.close();
+    stdin.cleanup();
+    stdout.cleanup();
+    if (testDir) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Answer requests as they are sent until the tool call completes
+   */
+  async function serve(promise: Promise<string>, respond: (message: any) => any): Promise<any> {
+    const answered = new Set<number>();
+    let done = false;
+    promise.finally(() => { done = true; }).catch(() => {});
+
+    while (!done) {
+      for (const message of parseLSPMessages(stdin.getWrittenData())) {
+        if (message.id !== undefined && message.method && !answered.has(message.id)) {
+          answered.add(message.id);
+          sendLSPMessage(stdout, { jsonrpc: '2.0', id: message.id, result: respond(message) });
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    return JSON.parse(await promise);
+  }
+
+  function respondWithCallers(message: any): any {
+    if (message.method === 'textDocument/prepareCallHierarchy') {
+      return [a];
+    }
+    return callers[message.params.item.name];
+  }
+
+  it('should walk callers transitively and de-duplicate functions', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 100 }),
+      respondWithCallers
+    );
+
+    expect(result.found).toBe(true);
+    expect(result.root).toBe('n0');
+    expect(result.nodes.map((node: any) => [node.id, node.name, node.depth])).toEqual([
+      ['n0', 'a', 0],
+      ['n1', 'b', 1],
+      ['n2', 'c', 1]
+    ]);
+    expect(result.edges.map((edge: any) => `${edge.from}->${edge.to}`)).toEqual([
+      'n1->n0',
+      'n2->n0',
+      'n2->n1',
+      'n0->n2'
+    ]);
+    expect(result.edges[0].call_sites).toEqual([{ line: 11, column: 2 }]);
+  });
+
+  it('should detect cycles', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 100 }),
+      respondWithCallers
+    );
+
+    expect(result.has_cycles).toBe(true);
+    expect(result.entry_points).toEqual([]);
+    expect(result.edges.filter((edge: any) => edge.cycle).length).toBeGreaterThan(0);
+  });
+
+  it('should not expand functions at max_depth', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 1, maxNodes: 100 }),
+      respondWithCallers
+    );
+
+    expect(result.nodes.map((node: any) => node.expanded)).toEqual([true, false, false]);
+    expect(result.entry_points).toEqual([]);
+    expect(result.has_cycles).toBe(false);
+  });
+
+  it('should report expanded functions without callers as entry points', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 100 }),
+      message => {
+        if (message.method === 'textDocument/prepareCallHierarchy') {
+          return [a];
+        }
+        return message.params.item.name === 'a' ? [call(b, 11)] : [];
+      }
+    );
+
+    expect(result.entry_points).toEqual(['n1']);
+    expect(result.has_cycles).toBe(false);
+  });
+
+  it('should stop at max_nodes and mark the graph truncated', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 2 }),
+      respondWithCallers
+    );
+
+    expect(result.truncated).toBe(true);
+    expect(result.node_count).toBe(2);
+  });
+
+  it('should not report a function whose callers were dropped as an entry point', async () => {
+    // a <- b <- c, with room for a and b only
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 2 }),
+      message => {
+        if (message.method === 'textDocument/prepareCallHierarchy') {
+          return [a];
+        }
+        return { a: [call(b, 11)], b: [call(c, 22)], c: [] }[message.params.item.name as 'a' | 'b' | 'c'];
+      }
+    );
+
+    expect(result.truncated).toBe(true);
+    expect(result.nodes.map((node: any) => [node.id, node.expanded, node.truncated])).toEqual([
+      ['n0', true, undefined],
+      ['n1', true, true]
+    ]);
+    expect(result.entry_points).toEqual([]);
+  });
+
+  it('should walk callees with edges pointing from caller to callee', async () => {
+    const leaf = item('leaf', 30);
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'outgoing', { maxDepth: 3, maxNodes: 100 }),
+      message => {
+        if (message.method === 'textDocument/prepareCallHierarchy') {
+          return [a];
+        }
+        return message.params.item.name === 'a'
+          ? [{ to: leaf, fromRanges: [{ start: { line: 1, character: 2 }, end: { line: 1, character: 6 } }] }]
+          : [];
+      }
+    );
+
+    expect(result.edges.map((edge: any) => `${edge.from}->${edge.to}`)).toEqual(['n0->n1']);
+    expect(result.leaves).toEqual(['n1']);
+  });
+
+  it('should render the graph as a Mermaid diagram', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 100 }, 'mermaid'),
+      respondWithCallers
+    );
+
+    expect(result.format).toBe('mermaid');
+    expect(result.node_count).toBe(3);
+    expect(result.diagram).toMatch(/^graph LR\n/);
+    expect(result.diagram).toContain('n0 --> n2');
+    expect(result.diagram).toMatch(/-\.->/);
+  });
+
+  it('should build one graph per overload and select one by signature', async () => {
+    const intOverload = { ...a, detail: 'void (int)' };
+    const doubleOverload = { ...item('a', 5), detail: 'void (double)' };
+    const respond = (message: any) => {
+      if (message.method === 'textDocument/prepareCallHierarchy') {
+        return [intOverload, doubleOverload];
+      }
+      return message.params.item.detail === 'void (int)' ? [call(b, 11)] : [];
+    };
+
+    const all = await serve(getCallGraph(client, fileTracker, testFile, 0, 5), respond);
+    expect(all.overload_count).toBe(2);
+    expect(all.overloads.map((graph: any) => [graph.item_index, graph.node_count])).toEqual([[0, 2], [1, 1]]);
+
+    const selected = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 100 }, 'json', 0, { signature: 'double' }),
+      respond
+    );
+    expect(selected.item_index).toBe(1);
+    expect(selected.overload_count).toBe(2);
+    expect(selected.node_count).toBe(1);
+  });
+
+  it('should stop walking when the call is cancelled', async () => {
+    const controller = new AbortController();
+    const promise = getCallGraph(
+      client, fileTracker, testFile, 0, 5, 'incoming', { maxDepth: 3, maxNodes: 100 }, 'json', 0, {}, controller.signal
+    );
+
+    // Answer prepare, then cancel while the callers of the root are being computed
+    const sent = () => parseLSPMessages(stdin.getWrittenData());
+    while (!sent().some(message => message.method === 'textDocument/prepareCallHierarchy')) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    const prepare = sent().find(message => message.method === 'textDocument/prepareCallHierarchy');
+    sendLSPMessage(stdout, { jsonrpc: '2.0', id: prepare.id, result: [a] });
+
+    while (!sent().some(message => message.method === 'callHierarchy/incomingCalls')) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(CancelledError);
+
+    const methods = parseLSPMessages(stdin.getWrittenData()).map(message => message.method);
+    expect(methods).toContain('$/cancelRequest');
+    expect(methods.filter(method => method === 'callHierarchy/incomingCalls')).toHaveLength(1);
+  });
+
+  it('should report positions without a call hierarchy', async () => {
+    const result = await serve(
+      getCallGraph(client, fileTracker, testFile, 0, 0),
+      () => null
+    );
+
+    expect(result.found).toBe(false);
+  });
+});
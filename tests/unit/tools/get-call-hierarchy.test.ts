@@ -6,12 +6,18 @@ import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import { getCallHierarchy } from '../../../src/tools/get-call-hierarchy.js';
 import { FileTracker } from '../../../src/file-tracker.js';
 import { LSPClient } from '../../../src/lsp-client.js';
-import { MockWritableStream, MockReadableStream, sendLSPMessage } from '../../helpers/mock-streams.js';
+import {
+  MockWritableStream,
+  MockReadableStream,
+  sendLSPMessage,
+  parseLSPMessages
+} from '../../helpers/mock-streams.js';
 import {
   mockCallHierarchyItem,
   mockCallHierarchyIncomingCalls,
   mockCallHierarchyOutgoingCalls
 } from '../../helpers/mock-lsp-responses.js';
+import { pathToUri } from '../../../src/utils/uri.js';
 import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
@@ -338,5 +344,104 @@ describe('get-call-hierarchy', () => {
 
       expect(parsed.symbol.kind).toBe('Unknown(999)');
     });
+
+    it('should report the relationships of each overload separately', async () => {
+      const intOverload = { ...mockCallHierarchyItem, detail: 'void (int)' };
+      const doubleOverload = {
+        ...mockCallHierarchyItem,
+        detail: 'void (double)',
+        selectionRange: { start: { line: 20, character: 5 }, end: { line: 20, character: 15 } }
+      };
+
+      const promise = getCallHierarchy(client, fileTracker, testFile, 10, 5);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: [intOverload, doubleOverload]
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Callers and callees of the first overload
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 2, result: mockCallHierarchyIncomingCalls });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 3, result: [] });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      // Callers and callees of the second overload
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 4, result: [] });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 5, result: mockCallHierarchyOutgoingCalls });
+
+      const result = await promise;
+      const parsed = JSON.parse(result);
+
+      expect(parsed.found).toBe(true);
+      expect(parsed.overload_count).toBe(2);
+      expect(parsed.overloads.map((overload: any) => [overload.item_index, overload.symbol.detail])).toEqual([
+        [0, 'void (int)'],
+        [1, 'void (double)']
+      ]);
+      expect(parsed.overloads[0].incoming_count).toBe(2);
+      expect(parsed.overloads[0].outgoing_count).toBe(0);
+      expect(parsed.overloads[1].incoming_count).toBe(0);
+      expect(parsed.overloads[1].outgoing_count).toBe(1);
+    });
+
+    it('should list the overloads when item_index matches none', async () => {
+      const promise = getCallHierarchy(client, fileTracker, testFile, 10, 5, undefined, 'json', 0, { itemIndex: 2 });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: [mockCallHierarchyItem, mockCallHierarchyItem]
+      });
+
+      const result = await promise;
+      const parsed = JSON.parse(result);
+
+      expect(parsed.found).toBe(false);
+      expect(parsed.message).toContain('item_index 2');
+      expect(parsed.overloads).toHaveLength(2);
+    });
+
+    it('should convert columns between the server encoding and tool columns', async () => {
+      // 'é' is two UTF-8 bytes: run() starts at UTF-16 column 14 but byte 15
+      writeFileSync(testFile, 'auto s = "é"; run();\n');
+      client.setPositionEncoding('utf-8');
+
+      const promise = getCallHierarchy(client, fileTracker, testFile, 0, 14);
+
+      const waitForRequest = async (method: string) => {
+        for (;;) {
+          const request = parseLSPMessages(stdin.getWrittenData()).find(message => message.method === method);
+          if (request) {
+            return request;
+          }
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+      };
+
+      const prepare = await waitForRequest('textDocument/prepareCallHierarchy');
+      expect(prepare.params.position).toEqual({ line: 0, character: 15 });
+
+      const range = { start: { line: 0, character: 15 }, end: { line: 0, character: 18 } };
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: prepare.id,
+        result: [{ name: 'run', kind: 12, uri: pathToUri(testFile), range, selectionRange: range }]
+      });
+
+      for (const method of ['callHierarchy/incomingCalls', 'callHierarchy/outgoingCalls']) {
+        sendLSPMessage(stdout, { jsonrpc: '2.0', id: (await waitForRequest(method)).id, result: [] });
+      }
+
+      const parsed = JSON.parse(await promise);
+      expect(parsed.symbol.location).toMatchObject({ line: 0, column: 14 });
+    });
   });
 });
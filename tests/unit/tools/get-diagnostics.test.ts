@@ -223,6 +223,65 @@ describe('get-diagnostics', () => {
       expect(diagnostics).toEqual([]);
     });
 
+    it('should drop cached diagnostics and listen to the new client on rebind', async () => {
+      const uri = 'file:///test.cpp';
+
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        method: 'textDocument/publishDiagnostics',
+        params: { uri, diagnostics: mockDiagnostics }
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(diagnosticsCache.getCachedDiagnostics(uri).length).toBeGreaterThan(0);
+
+      const newStdin = new MockWritableStream();
+      const newStdout = new MockReadableStream();
+      const newClient = new LSPClient(newStdin, newStdout);
+
+      try {
+        diagnosticsCache.rebind(newClient);
+        expect(diagnosticsCache.getCacheSize()).toBe(0);
+
+        sendLSPMessage(newStdout, {
+          jsonrpc: '2.0',
+          method: 'textDocument/publishDiagnostics',
+          params: { uri, diagnostics: [] }
+        });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(diagnosticsCache.getCacheSize()).toBe(1);
+        expect(diagnosticsCache.getCachedDiagnostics(uri)).toEqual([]);
+      } finally {
+        newClient.close();
+        newStdin.cleanup();
+        newStdout.cleanup();
+      }
+    });
+
+    it('should ignore diagnostics for versions older than the invalidated one', async () => {
+      const uri = 'file:///test.cpp';
+
+      diagnosticsCache.invalidate(uri, 2);
+
+      // Late diagnostics for the previous version must not be cached
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        method: 'textDocument/publishDiagnostics',
+        params: { uri, version: 1, diagnostics: mockDiagnostics }
+      });
+
+      const promise = diagnosticsCache.getDiagnostics(uri, false);
+
+      setTimeout(() => {
+        sendLSPMessage(stdout, {
+          jsonrpc: '2.0',
+          method: 'textDocument/publishDiagnostics',
+          params: { uri, version: 2, diagnostics: [] }
+        });
+      }, 50);
+
+      expect(await promise).toEqual([]);
+    });
+
     it('should report correct cache size', async () => {
       expect(diagnosticsCache.getCacheSize()).toBe(0);
 
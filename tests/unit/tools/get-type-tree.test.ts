@@ -0,0 +1,172 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { getTypeTree } from '../../../src/tools/get-type-tree.js';
+import { FileTracker } from '../../../src/file-tracker.js';
+import { LSPClient } from '../../../src/lsp-client.js';
+import {
+  MockWritableStream,
+  MockReadableStream,
+  sendLSPMessage,
+  parseLSPMessages
+} from '../../helpers/mock-streams.js';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+function type(name: string, line: number) {
+  return {
+    name,
+    kind: 5,
+    uri: 'file:///src/types.h',
+    range: { start: { line, character: 0 }, end: { line: line + 2, character: 2 } },
+    selectionRange: { start: { line, character: 6 }, end: { line, character: 6 + name.length } }
+  };
+}
+
+describe('get-type-tree', () => {
+  let client: LSPClient;
+  let fileTracker: FileTracker;
+  let stdin: MockWritableStream;
+  let stdout: MockReadableStream;
+  let testDir: string;
+  let testFile: string;
+
+  // Observer <- Tab, Observer <- Frame, Tab <- TabFrame, Frame <- TabFrame;
+  // Observer derives from Base
+  const base = type('Base', 0);
+  const observer = type('Observer', 10);
+  const tab = type('Tab', 20);
+  const frame = type('Frame', 30);
+  const tabFrame = type('TabFrame', 40);
+
+  const supertypes: Record<string, any[]> = {
+    Observer: [base],
+    Base: []
+  };
+  const subtypes: Record<string, any[]> = {
+    Observer: [tab, frame],
+    Tab: [tabFrame],
+    Frame: [tabFrame],
+    TabFrame: []
+  };
+
+  beforeEach(() => {
+    stdin = new MockWritableStream();
+    stdout = new MockReadableStream();
+    client = new LSPClient(stdin, stdout);
+    fileTracker = new FileTracker(client);
+
+    testDir = join(tmpdir(), `type-tree-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    testFile = join(testDir, 'types.h');
+    writeFileSync(testFile, 'class Observer { };');
+  });
+
+  afterEach(() => {
+    fileTracker.closeAll();
+    client.close();
+    stdin.cleanup();
+    stdout.cleanup();
+    if (testDir) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Answer requests as they are sent until the tool call completes
+   */
+  async function serve(promise: Promise<string>): Promise<any> {
+    const answered = new Set<number>();
+    let done = false;
+    promise.finally(() => { done = true; }).catch(() => {});
+
+    while (!done) {
+      for (const message of parseLSPMessages(stdin.getWrittenData())) {
+        if (message.id === undefined || !message.method || answered.has(message.id)) {
+          continue;
+        }
+        answered.add(message.id);
+
+        let result: any = null;
+        if (message.method === 'textDocument/prepareTypeHierarchy') {
+          result = [observer];
+        } else if (message.method === 'typeHierarchy/supertypes') {
+          result = supertypes[message.params.item.name];
+        } else if (message.method === 'typeHierarchy/subtypes') {
+          result = subtypes[message.params.item.name];
+        }
+        sendLSPMessage(stdout, { jsonrpc: '2.0', id: message.id, result });
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    return JSON.parse(await promise);
+  }
+
+  it('should expand supertypes and subtypes into a nested tree', async () => {
+    const result = await serve(getTypeTree(client, fileTracker, testFile, 0, 6));
+
+    expect(result.found).toBe(true);
+    expect(result.node_count).toBe(5);
+    expect(result.truncated).toBe(false);
+    expect(result.tree.name).toBe('Observer');
+    expect(result.tree.supertypes.map((node: any) => node.name)).toEqual(['Base']);
+    expect(result.tree.subtypes.map((node: any) => node.name)).toEqual(['Tab', 'Frame']);
+    expect(result.tree.subtypes[0].subtypes[0].name).toBe('TabFrame');
+    // Supertype branches only list supertypes, and vice versa
+    expect(result.tree.supertypes[0].subtypes).toBeUndefined();
+    expect(result.tree.subtypes[0].supertypes).toBeUndefined();
+  });
+
+  it('should mark diamond inheritance and expand shared types once', async () => {
+    const result = await serve(getTypeTree(client, fileTracker, testFile, 0, 6));
+
+    const viaTab = result.tree.subtypes[0].subtypes[0];
+    const viaFrame = result.tree.subtypes[1].subtypes[0];
+
+    expect(viaTab.id).toBe(viaFrame.id);
+    expect(viaTab.diamond).toBe(true);
+    expect(viaTab.repeated).toBeUndefined();
+    expect(viaTab.expanded).toBe(true);
+    expect(viaFrame.diamond).toBe(true);
+    expect(viaFrame.repeated).toBe(true);
+    expect(viaFrame.subtypes).toBeUndefined();
+  });
+
+  it('should respect the direction and depth limits', async () => {
+    const result = await serve(
+      getTypeTree(client, fileTracker, testFile, 0, 6, 'subtypes', { maxDepth: 1, maxNodes: 100 })
+    );
+
+    expect(result.tree.supertypes).toBeUndefined();
+    expect(result.tree.subtypes.map((node: any) => [node.name, node.expanded])).toEqual([
+      ['Tab', false],
+      ['Frame', false]
+    ]);
+    expect(result.node_count).toBe(3);
+  });
+
+  it('should stop at max_nodes and mark the tree truncated', async () => {
+    const result = await serve(
+      getTypeTree(client, fileTracker, testFile, 0, 6, 'both', { maxDepth: 5, maxNodes: 3 })
+    );
+
+    expect(result.truncated).toBe(true);
+    expect(result.node_count).toBe(3);
+  });
+
+  it('should render the tree as a DOT diagram with one node per type', async () => {
+    const result = await serve(
+      getTypeTree(client, fileTracker, testFile, 0, 6, 'both', { maxDepth: 5, maxNodes: 100 }, 'dot')
+    );
+
+    expect(result.format).toBe('dot');
+    expect(result.node_count).toBe(5);
+    // Base <- Observer, Observer <- Tab, Observer <- Frame, Tab <- TabFrame, Frame <- TabFrame
+    expect(result.edge_count).toBe(5);
+    expect(result.diagram).toMatch(/^digraph type_tree \{/);
+  });
+});
@@ -0,0 +1,171 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { renameSymbol } from '../../../src/tools/rename-symbol.js';
+import { FileTracker } from '../../../src/file-tracker.js';
+import { LSPClient } from '../../../src/lsp-client.js';
+import { pathToUri } from '../../../src/utils/uri.js';
+import { PathAccessError } from '../../../src/utils/errors.js';
+import {
+  MockWritableStream,
+  MockReadableStream,
+  sendLSPMessage,
+  parseLSPMessages
+} from '../../helpers/mock-streams.js';
+import { writeFileSync, readFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('rename-symbol', () => {
+  let client: LSPClient;
+  let fileTracker: FileTracker;
+  let stdin: MockWritableStream;
+  let stdout: MockReadableStream;
+  let testDir: string;
+  let testFile: string;
+
+  const fooRange = {
+    start: { line: 0, character: 5 },
+    end: { line: 0, character: 8 }
+  };
+
+  beforeEach(() => {
+    stdin = new MockWritableStream();
+    stdout = new MockReadableStream();
+    client = new LSPClient(stdin, stdout);
+    fileTracker = new FileTracker(client);
+
+    // Create temp test file
+    testDir = join(tmpdir(), `rename-symbol-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    testFile = join(testDir, 'test.cpp');
+    writeFileSync(testFile, 'void foo() { }\nint main() { foo(); }\n');
+  });
+
+  afterEach(() => {
+    fileTracker.closeAll();
+    client.close();
+    stdin.cleanup();
+    stdout.cleanup();
+    if (testDir) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  function respondWithRename() {
+    sendLSPMessage(stdout, {
+      jsonrpc: '2.0',
+      id: 2,
+      result: {
+        documentChanges: [
+          {
+            textDocument: { uri: pathToUri(testFile), version: 1 },
+            edits: [
+              { range: fooRange, newText: 'bar' },
+              {
+                range: { start: { line: 1, character: 13 }, end: { line: 1, character: 16 } },
+                newText: 'bar'
+              }
+            ]
+          }
+        ]
+      }
+    });
+  }
+
+  describe('renameSymbol', () => {
+    it('should preview edits without modifying files by default', async () => {
+      const promise = renameSymbol(client, fileTracker, testFile, 0, 5, 'bar');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: { range: fooRange, placeholder: 'foo' }
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      respondWithRename();
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.success).toBe(true);
+      expect(parsed.old_name).toBe('foo');
+      expect(parsed.new_name).toBe('bar');
+      expect(parsed.applied).toBe(false);
+      expect(parsed.file_count).toBe(1);
+      expect(parsed.edit_count).toBe(2);
+      expect(parsed.files[0].file).toBe(testFile);
+      expect(parsed.files[0].edits[1].before).toBe('int main() { foo(); }');
+      expect(parsed.files[0].edits[1].after).toBe('int main() { bar(); }');
+      expect(readFileSync(testFile, 'utf-8')).toContain('foo');
+    });
+
+    it('should write edits to disk when apply is set', async () => {
+      const promise = renameSymbol(client, fileTracker, testFile, 0, 5, 'bar', true);
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, result: fooRange });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      respondWithRename();
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.applied).toBe(true);
+      expect(readFileSync(testFile, 'utf-8')).toBe('void bar() { }\nint main() { bar(); }\n');
+
+      const didChange = parseLSPMessages(stdin.getWrittenData()).find(m => m.method === 'textDocument/didChange');
+      expect(didChange?.params.textDocument.version).toBe(2);
+      expect(didChange?.params.contentChanges[0].text).toContain('void bar()');
+    });
+
+    it('should not read or write files that fail the access check', async () => {
+      const checked: string[] = [];
+      const promise = renameSymbol(client, fileTracker, testFile, 0, 5, 'bar', true, undefined, file => {
+        checked.push(file);
+        throw new PathAccessError(`Access denied: ${file}`);
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, result: fooRange });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      respondWithRename();
+
+      await expect(promise).rejects.toThrow(PathAccessError);
+      expect(checked).toEqual([testFile]);
+      expect(readFileSync(testFile, 'utf-8')).toBe('void foo() { }\nint main() { foo(); }\n');
+    });
+
+    it('should report symbols that cannot be renamed', async () => {
+      const promise = renameSymbol(client, fileTracker, testFile, 0, 0, 'bar');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, result: null });
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.message).toBe('No renameable symbol at this position');
+    });
+
+    it('should surface prepareRename errors from the server', async () => {
+      const promise = renameSymbol(client, fileTracker, testFile, 0, 5, 'bar');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      sendLSPMessage(stdout, {
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: -32001, message: 'symbol is a standard library symbol' }
+      });
+
+      const parsed = JSON.parse(await promise);
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.message).toContain('standard library');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DiagramBuilder,
+  qualifiedName,
+  renderMermaid,
+  renderDot
+} from '../../../src/utils/diagram.js';
+
+function item(name: string, line: number, detail?: string) {
+  return {
+    name,
+    kind: 6,
+    detail,
+    uri: 'file:///src/net/http_request.cc',
+    selectionRange: { start: { line, character: 6 }, end: { line, character: 6 + name.length } }
+  };
+}
+
+describe('diagram', () => {
+  describe('qualifiedName', () => {
+    it('should use a detail that qualifies the name', () => {
+      expect(qualifiedName(item('Start', 1, 'net::HttpRequest::Start'))).toBe('net::HttpRequest::Start');
+    });
+
+    it('should ignore details that are signatures', () => {
+      expect(qualifiedName(item('Start', 1, 'void ()'))).toBe('Start');
+      expect(qualifiedName(item('Start', 1))).toBe('Start');
+    });
+  });
+
+  describe('DiagramBuilder', () => {
+    it('should add each symbol and edge once', () => {
+      const builder = new DiagramBuilder();
+      const start = builder.addItem(item('Start', 1, 'net::HttpRequest::Start'));
+      const run = builder.addItem(item('Run', 10));
+      expect(builder.addItem(item('Start', 1, 'net::HttpRequest::Start'))).toBe(start);
+
+      builder.addEdge(run, start);
+      builder.addEdge(run, start);
+
+      const diagram = builder.build('call_hierarchy', 'LR', start);
+      expect(diagram.nodes.map(node => node.id)).toEqual(['n0', 'n1']);
+      expect(diagram.edges).toEqual([{ from: 'n1', to: 'n0', dashed: undefined }]);
+    });
+  });
+
+  describe('rendering', () => {
+    const builder = new DiagramBuilder();
+    const root = builder.addItem(item('Start', 1, 'net::HttpRequest::Start'));
+    const caller = builder.addItem(item('Post<"a">', 10));
+    builder.addEdge(caller, root);
+    builder.addEdge(root, caller, true);
+    const diagram = builder.build('call_hierarchy', 'LR', root);
+
+    it('should render a Mermaid graph with kinds and file:line tooltips in the index base', () => {
+      expect(renderMermaid(diagram, 1)).toBe([
+        'graph LR',
+        '  n0["net::HttpRequest::Start<br/><i>Method</i>"]',
+        '  n1["Post#lt;#quot;a#quot;#gt;<br/><i>Method</i>"]',
+        '  n1 --> n0',
+        '  n0 -.-> n1',
+        '  click n0 href "file:///src/net/http_request.cc" "/src/net/http_request.cc:2"',
+        '  click n1 href "file:///src/net/http_request.cc" "/src/net/http_request.cc:11"',
+        '  style n0 stroke-width:3px',
+        ''
+      ].join('\n'));
+    });
+
+    it('should render a Graphviz digraph with escaped labels', () => {
+      expect(renderDot(diagram)).toBe([
+        'digraph call_hierarchy {',
+        '  rankdir=LR;',
+        '  node [shape=box, fontname="Helvetica"];',
+        '  n0 [label="net::HttpRequest::Start\\n(Method)", tooltip="/src/net/http_request.cc:1", penwidth=2];',
+        '  n1 [label="Post<\\"a\\">\\n(Method)", tooltip="/src/net/http_request.cc:10"];',
+        '  n1 -> n0;',
+        '  n0 -> n1 [style=dashed];',
+        '}',
+        ''
+      ].join('\n'));
+    });
+  });
+});
@@ -3,7 +3,11 @@
 // file, You can obtain one at https://mozilla.org/MPL/2.0/.
 
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { fetchTwoPhaseHierarchy } from '../../../src/utils/hierarchy-helper.js';
+import {
+  fetchTwoPhaseHierarchy,
+  formatNoMatchingOverload,
+  selectHierarchyItems
+} from '../../../src/utils/hierarchy-helper.js';
 import { LSPClient } from '../../../src/lsp-client.js';
 import { MockWritableStream, MockReadableStream, sendLSPMessage } from '../../helpers/mock-streams.js';
 
@@ -81,12 +85,12 @@ describe('hierarchy-helper', () => {
       const result = await promise;
 
       expect(result).toBeDefined();
-      expect(result?.item).toEqual(mockItem);
-      expect(result?.incoming).toEqual(mockIncoming);
-      expect(result?.outgoing).toEqual(mockOutgoing);
+      expect(result?.results[0].item).toEqual(mockItem);
+      expect(result?.results[0].incoming).toEqual(mockIncoming);
+      expect(result?.results[0].outgoing).toEqual(mockOutgoing);
     });
 
-    it('should handle array response from prepare phase', async () => {
+    it('should query every item of an array response from prepare phase', async () => {
       const mockItems = [
         {
           name: 'TestFunction1',
@@ -103,6 +107,9 @@ describe('hierarchy-helper', () => {
           selectionRange: { start: { line: 30, character: 5 }, end: { line: 30, character: 18 } }
         }
       ];
+      const mockIncoming = [
+        { from: { name: 'caller', kind: 12 }, fromRanges: [] }
+      ];
 
       // Start the request
       const promise = fetchTwoPhaseHierarchy(
@@ -116,7 +123,7 @@ describe('hierarchy-helper', () => {
 
       await new Promise(resolve => setTimeout(resolve, 10));
 
-      // Respond with array (should use first item)
+      // Respond with array (both items are queried, one after the other)
       sendLSPMessage(stdout, {
         jsonrpc: '2.0',
         id: 1,
@@ -125,24 +132,57 @@ describe('hierarchy-helper', () => {
 
       await new Promise(resolve => setTimeout(resolve, 10));
 
-      // Respond to incoming and outgoing
-      sendLSPMessage(stdout, {
-        jsonrpc: '2.0',
-        id: 2,
-        result: []
-      });
+      // Respond to incoming and outgoing of the first item
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 2, result: [] });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 3, result: [] });
 
-      sendLSPMessage(stdout, {
-        jsonrpc: '2.0',
-        id: 3,
-        result: []
-      });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      // Respond to incoming and outgoing of the second item
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 4, result: mockIncoming });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 5, result: [] });
 
       const result = await promise;
 
-      expect(result).toBeDefined();
-      // Should use first item from array
-      expect(result?.item).toEqual(mockItems[0]);
+      expect(result?.items).toEqual(mockItems);
+      expect(result?.results.map(r => [r.index, r.item])).toEqual([[0, mockItems[0]], [1, mockItems[1]]]);
+      expect(result?.results[0].incoming).toEqual([]);
+      expect(result?.results[1].incoming).toEqual(mockIncoming);
+    });
+
+    it('should only query the selected item', async () => {
+      const mockItems = [
+        { name: 'Run', kind: 12, detail: 'void (int)', uri: 'file:///test.cpp',
+          range: { start: { line: 1, character: 0 }, end: { line: 2, character: 1 } },
+          selectionRange: { start: { line: 1, character: 5 }, end: { line: 1, character: 8 } } },
+        { name: 'Run', kind: 12, detail: 'void (double)', uri: 'file:///test.cpp',
+          range: { start: { line: 4, character: 0 }, end: { line: 5, character: 1 } },
+          selectionRange: { start: { line: 4, character: 5 }, end: { line: 4, character: 8 } } }
+      ];
+
+      const promise = fetchTwoPhaseHierarchy(
+        client,
+        'textDocument/prepareCallHierarchy',
+        'callHierarchy/incomingCalls',
+        'callHierarchy/outgoingCalls',
+        'file:///test.cpp',
+        { line: 1, character: 5 },
+        { signature: 'void(double)' }
+      );
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 1, result: mockItems });
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 2, result: [] });
+      sendLSPMessage(stdout, { jsonrpc: '2.0', id: 3, result: [] });
+
+      const result = await promise;
+
+      expect(result?.items).toHaveLength(2);
+      expect(result?.results).toHaveLength(1);
+      expect(result?.results[0].index).toBe(1);
+      expect(result?.results[0].item).toEqual(mockItems[1]);
     });
 
     it('should return null when prepare phase returns null', async () => {
@@ -239,9 +279,9 @@ describe('hierarchy-helper', () => {
       const result = await promise;
 
       expect(result).toBeDefined();
-      expect(result?.item).toEqual(mockItem);
-      expect(result?.incoming).toEqual([]); // Should be empty array on error
-      expect(result?.outgoing).toEqual([]);
+      expect(result?.results[0].item).toEqual(mockItem);
+      expect(result?.results[0].incoming).toEqual([]); // Should be empty array on error
+      expect(result?.results[0].outgoing).toEqual([]);
     });
 
     it('should handle errors in outgoing call request gracefully', async () => {
@@ -292,9 +332,9 @@ describe('hierarchy-helper', () => {
       const result = await promise;
 
       expect(result).toBeDefined();
-      expect(result?.item).toEqual(mockItem);
-      expect(result?.incoming).toEqual([]);
-      expect(result?.outgoing).toEqual([]); // Should be empty array on error
+      expect(result?.results[0].item).toEqual(mockItem);
+      expect(result?.results[0].incoming).toEqual([]);
+      expect(result?.results[0].outgoing).toEqual([]); // Should be empty array on error
     });
 
     it('should handle null results for incoming/outgoing gracefully', async () => {
@@ -341,9 +381,48 @@ describe('hierarchy-helper', () => {
       const result = await promise;
 
       expect(result).toBeDefined();
-      expect(result?.item).toEqual(mockItem);
-      expect(result?.incoming).toEqual([]);
-      expect(result?.outgoing).toEqual([]);
+      expect(result?.results[0].item).toEqual(mockItem);
+      expect(result?.results[0].incoming).toEqual([]);
+      expect(result?.results[0].outgoing).toEqual([]);
+    });
+  });
+
+  describe('selectHierarchyItems', () => {
+    const item = (detail: string | undefined, line: number) => ({
+      name: 'Run',
+      kind: 12,
+      detail,
+      uri: 'file:///test.cpp',
+      selectionRange: { start: { line, character: 5 }, end: { line, character: 8 } }
+    });
+    const items = [item('void (int)', 1), item('void (double)', 4), item(undefined, 7)];
+
+    it('should select every item by default', () => {
+      expect(selectHierarchyItems(items).map(({ index }) => index)).toEqual([0, 1, 2]);
+    });
+
+    it('should select by item_index', () => {
+      expect(selectHierarchyItems(items, { itemIndex: 1 })).toEqual([{ index: 1, item: items[1] }]);
+      expect(selectHierarchyItems(items, { itemIndex: 3 })).toEqual([]);
+    });
+
+    it('should match signatures against the detail ignoring whitespace', () => {
+      expect(selectHierarchyItems(items, { signature: '(int)' }).map(({ index }) => index)).toEqual([0]);
+      expect(selectHierarchyItems(items, { signature: 'void  (double )' }).map(({ index }) => index)).toEqual([1]);
+      // Items without a detail are matched by name
+      expect(selectHierarchyItems(items, { signature: 'Run' }).map(({ index }) => index)).toEqual([2]);
+    });
+
+    it('should list the available items when nothing matches', async () => {
+      const result = JSON.parse(await formatNoMatchingOverload(items, { signature: 'float' }));
+
+      expect(result.found).toBe(false);
+      expect(result.message).toContain('signature "float"');
+      expect(result.overloads.map((overload: any) => [overload.item_index, overload.detail, overload.line])).toEqual([
+        [0, 'void (int)', 1],
+        [1, 'void (double)', 4],
+        [2, undefined, 7]
+      ]);
     });
   });
 });
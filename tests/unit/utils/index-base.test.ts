@@ -0,0 +1,92 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { getIndexBase, rebaseResult } from '../../../src/utils/index-base.js';
+
+describe('index-base', () => {
+  describe('rebaseResult', () => {
+    it('should leave 0-based results unchanged', () => {
+      const result = '{"found":true,"line":3}';
+      expect(rebaseResult(result, 0)).toBe(result);
+    });
+
+    it('should shift locations, ranges and context highlights', () => {
+      const result = JSON.stringify({
+        found: true,
+        count: 1,
+        locations: [{
+          file: '/src/a.cc',
+          line: 0,
+          column: 4,
+          context: [{ line: 0, text: 'int foo;', highlight: { start: 4, end: 7 } }]
+        }],
+        range: { start: { line: 2, character: 0 }, end: { line: 2, character: 5 } }
+      });
+
+      expect(JSON.parse(rebaseResult(result, 1))).toEqual({
+        found: true,
+        count: 1,
+        locations: [{
+          file: '/src/a.cc',
+          line: 1,
+          column: 5,
+          context: [{ line: 1, text: 'int foo;', highlight: { start: 5, end: 8 } }]
+        }],
+        range: { start: { line: 3, character: 1 }, end: { line: 3, character: 6 } }
+      });
+    });
+
+    it('should shift nested hierarchy and edit positions but no other numbers', () => {
+      const result = JSON.stringify({
+        node_count: 2,
+        max_depth: 3,
+        item_index: 0,
+        edges: [{ from: 'n0', to: 'n1', call_sites: [{ line: 9, column: 2 }] }],
+        edits: [{ line: 1, column: 0, end_line: 1, end_column: 3 }],
+        symbols: [{ line: 0, column: 0, endLine: 4, endColumn: 1, children: [{ line: 1, column: 2 }] }]
+      });
+
+      expect(JSON.parse(rebaseResult(result, 1))).toEqual({
+        node_count: 2,
+        max_depth: 3,
+        item_index: 0,
+        edges: [{ from: 'n0', to: 'n1', call_sites: [{ line: 10, column: 3 }] }],
+        edits: [{ line: 2, column: 1, end_line: 2, end_column: 4 }],
+        symbols: [{ line: 1, column: 1, endLine: 5, endColumn: 2, children: [{ line: 2, column: 3 }] }]
+      });
+    });
+
+    it('should return results that are not JSON unchanged', () => {
+      expect(rebaseResult('not json', 1)).toBe('not json');
+    });
+  });
+
+  describe('getIndexBase', () => {
+    const original = process.env.INDEX_BASE;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.INDEX_BASE;
+      } else {
+        process.env.INDEX_BASE = original;
+      }
+    });
+
+    it('should default to 0', () => {
+      delete process.env.INDEX_BASE;
+      expect(getIndexBase()).toBe(0);
+    });
+
+    it('should read INDEX_BASE', () => {
+      process.env.INDEX_BASE = '1';
+      expect(getIndexBase()).toBe(1);
+    });
+
+    it('should fall back to 0 for invalid values', () => {
+      process.env.INDEX_BASE = '2';
+      expect(getIndexBase()).toBe(0);
+    });
+  });
+});
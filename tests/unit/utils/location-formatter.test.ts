@@ -0,0 +1,72 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { LocationFormatter } from '../../../src/utils/location-formatter.js';
+import { pathToUri } from '../../../src/utils/uri.js';
+
+describe('LocationFormatter', () => {
+  let testDir: string;
+  let uri: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `location-formatter-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    const file = join(testDir, 'test.cc');
+    // 'ö' is two UTF-8 bytes, so name starts at byte 26 but UTF-16 unit 25
+    writeFileSync(file, 'int x;\nconst char* s = "ö"; int name;\n');
+    uri = pathToUri(file);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should convert server positions for output', async () => {
+    const formatter = new LocationFormatter('utf-8', 'utf-16');
+
+    expect(await formatter.position(uri, { line: 1, character: 26 })).toEqual({ line: 1, column: 25 });
+    expect(await formatter.toClientRange(uri, {
+      start: { line: 1, character: 26 },
+      end: { line: 1, character: 30 }
+    })).toEqual({ start: { line: 1, character: 25 }, end: { line: 1, character: 29 } });
+  });
+
+  it('should convert tool positions for requests', async () => {
+    const formatter = new LocationFormatter('utf-16', 'utf-8');
+
+    expect(await formatter.toServer(uri, { line: 1, character: 26 })).toEqual({ line: 1, character: 25 });
+    // Lines without multibyte characters are unaffected
+    expect(await formatter.toServer(uri, { line: 0, character: 4 })).toEqual({ line: 0, character: 4 });
+  });
+
+  it('should highlight context in tool columns', async () => {
+    const formatter = new LocationFormatter('utf-8', 'utf-32');
+
+    expect(await formatter.context(uri, {
+      start: { line: 1, character: 26 },
+      end: { line: 1, character: 30 }
+    }, 0)).toEqual([
+      { line: 1, text: 'const char* s = "ö"; int name;', highlight: { start: 25, end: 29 } }
+    ]);
+  });
+
+  it('should leave positions unchanged when it cannot read the line', async () => {
+    const formatter = new LocationFormatter('utf-8', 'utf-16');
+
+    expect(await formatter.toClient(uri, { line: 5, character: 3 })).toEqual({ line: 5, character: 3 });
+    expect(await formatter.toClient(pathToUri(join(testDir, 'missing.cc')), { line: 0, character: 3 }))
+      .toEqual({ line: 0, character: 3 });
+  });
+
+  it('should not read files when both sides use the same encoding', async () => {
+    const formatter = new LocationFormatter('utf-8', 'utf-8');
+
+    expect(await formatter.position(pathToUri(join(testDir, 'missing.cc')), { line: 0, character: 7 }))
+      .toEqual({ line: 0, column: 7 });
+  });
+});
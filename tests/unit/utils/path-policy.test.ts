@@ -0,0 +1,162 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, rmSync, symlinkSync, writeFileSync, realpathSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  PathPolicy,
+  canonicalizePath,
+  createPathPolicy,
+  getIncludeDirectories
+} from '../../../src/utils/path-policy.js';
+import { PathAccessError } from '../../../src/utils/errors.js';
+
+describe('path-policy', () => {
+  let testDir: string;
+  let projectRoot: string;
+  let outside: string;
+
+  beforeEach(() => {
+    // Canonical, since the tmpdir may itself be a symlink (e.g. on macOS)
+    testDir = join(realpathSync(tmpdir()), `path-policy-test-${Date.now()}`);
+    projectRoot = join(testDir, 'project');
+    outside = join(testDir, 'outside');
+    mkdirSync(join(projectRoot, 'src'), { recursive: true });
+    mkdirSync(outside, { recursive: true });
+    writeFileSync(join(projectRoot, 'src', 'main.cc'), 'int main() {}\n');
+    writeFileSync(join(outside, 'secret.txt'), 'secret\n');
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('canonicalizePath', () => {
+    it('should resolve symlinks and ..', () => {
+      symlinkSync(outside, join(projectRoot, 'link'));
+      expect(canonicalizePath(join(projectRoot, 'link', 'secret.txt'))).toBe(join(outside, 'secret.txt'));
+      expect(canonicalizePath(join(projectRoot, 'src', '..', '..', 'outside'))).toBe(outside);
+    });
+
+    it('should resolve the existing parent of a missing file', () => {
+      symlinkSync(outside, join(projectRoot, 'link'));
+      expect(canonicalizePath(join(projectRoot, 'link', 'missing', 'a.h'))).toBe(join(outside, 'missing', 'a.h'));
+    });
+  });
+
+  describe('PathPolicy', () => {
+    it('should allow files inside the allowed directories', () => {
+      const policy = new PathPolicy([projectRoot]);
+      expect(policy.isAllowed(join(projectRoot, 'src', 'main.cc'))).toBe(true);
+      expect(policy.isAllowed(join(projectRoot, 'src', 'new.cc'))).toBe(true);
+    });
+
+    it('should reject files outside them, including through .. and symlinks', () => {
+      symlinkSync(outside, join(projectRoot, 'link'));
+      const policy = new PathPolicy([projectRoot]);
+
+      expect(policy.isAllowed(join(outside, 'secret.txt'))).toBe(false);
+      expect(policy.isAllowed(join(projectRoot, '..', 'outside', 'secret.txt'))).toBe(false);
+      expect(policy.isAllowed(join(projectRoot, 'link', 'secret.txt'))).toBe(false);
+      expect(policy.isAllowed(`${projectRoot}-other/a.cc`)).toBe(false);
+      expect(() => policy.check('/etc/shadow')).toThrow(PathAccessError);
+    });
+  });
+
+  describe('getIncludeDirectories', () => {
+    it('should collect include flags from arguments and commands', async () => {
+      const compileCommandsPath = join(projectRoot, 'compile_commands.json');
+      writeFileSync(compileCommandsPath, JSON.stringify([
+        {
+          directory: join(projectRoot, 'out'),
+          arguments: ['clang++', '-I../include', '-isystem', '/opt/sdk/include', '-include', 'pch.h', '-c', 'a.cc']
+        },
+        {
+          directory: projectRoot,
+          command: 'clang++ -iquote gen "-I/opt/other dir" --include-directory=/opt/third -c b.cc'
+        }
+      ]));
+
+      expect((await getIncludeDirectories(compileCommandsPath)).sort()).toEqual([
+        '/opt/other dir',
+        '/opt/sdk/include',
+        '/opt/third',
+        join(projectRoot, 'gen'),
+        join(projectRoot, 'include')
+      ].sort());
+    });
+
+    it('should scan every entry of a large database', async () => {
+      const compileCommandsPath = join(projectRoot, 'compile_commands.json');
+      const entries = Array.from({ length: 2500 }, (_, i) => ({
+        directory: projectRoot,
+        arguments: ['clang++', '-Iinclude', '-c', `src/${i}.cc`]
+      }));
+      entries.push({ directory: projectRoot, arguments: ['clang++', '-Ilast', '-c', 'src/last.cc'] });
+      writeFileSync(compileCommandsPath, JSON.stringify(entries));
+
+      expect((await getIncludeDirectories(compileCommandsPath)).sort()).toEqual([
+        join(projectRoot, 'include'),
+        join(projectRoot, 'last')
+      ]);
+    });
+
+    it('should skip malformed entries', async () => {
+      const compileCommandsPath = join(projectRoot, 'compile_commands.json');
+      writeFileSync(compileCommandsPath, JSON.stringify([
+        null,
+        'clang++ -Ibad',
+        { directory: projectRoot, arguments: '-Ibad' },
+        { directory: projectRoot, arguments: ['clang++', 42, '-Ibad'] },
+        { directory: projectRoot, command: ['clang++', '-Ibad'] },
+        { directory: 7, arguments: ['clang++', '-Iinclude', '-c', 'a.cc'] }
+      ]));
+
+      expect(await getIncludeDirectories(compileCommandsPath)).toEqual([join(projectRoot, 'include')]);
+    });
+
+    it('should return nothing for an unreadable database', async () => {
+      expect(await getIncludeDirectories(join(projectRoot, 'missing.json'))).toEqual([]);
+    });
+  });
+
+  describe('createPathPolicy', () => {
+    const original = {
+      RESTRICT_FILE_ACCESS: process.env.RESTRICT_FILE_ACCESS,
+      ALLOWED_PATHS: process.env.ALLOWED_PATHS
+    };
+
+    afterEach(() => {
+      for (const [key, value] of Object.entries(original)) {
+        if (value === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+    });
+
+    it('should allow the project root, include directories and ALLOWED_PATHS', async () => {
+      delete process.env.RESTRICT_FILE_ACCESS;
+      process.env.ALLOWED_PATHS = join(testDir, 'extra');
+      const compileCommandsPath = join(projectRoot, 'compile_commands.json');
+      writeFileSync(compileCommandsPath, JSON.stringify([
+        { directory: projectRoot, arguments: ['clang++', `-I${outside}`, '-c', 'src/main.cc'] }
+      ]));
+
+      const policy = (await createPathPolicy(projectRoot, compileCommandsPath))!;
+      expect(policy.isAllowed(join(projectRoot, 'src', 'main.cc'))).toBe(true);
+      expect(policy.isAllowed(join(outside, 'secret.txt'))).toBe(true);
+      expect(policy.isAllowed(join(testDir, 'extra', 'a.h'))).toBe(true);
+      expect(policy.isAllowed('/etc/shadow')).toBe(false);
+    });
+
+    it('should not restrict access when RESTRICT_FILE_ACCESS is false', async () => {
+      process.env.RESTRICT_FILE_ACCESS = 'false';
+      expect(await createPathPolicy(projectRoot)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  columnToIndex,
+  convertColumn,
+  getColumnEncoding,
+  indexToColumn
+} from '../../../src/utils/position-encoding.js';
+
+describe('position-encoding', () => {
+  // 'é' is 2 UTF-8 bytes, '😀' is 4 bytes and a UTF-16 surrogate pair
+  const line = 'aé😀b';
+
+  describe('columnToIndex', () => {
+    it('should map columns in each encoding to string indices', () => {
+      expect([0, 1, 3, 7].map(column => columnToIndex(line, column, 'utf-8'))).toEqual([0, 1, 2, 4]);
+      expect([0, 1, 2, 3].map(column => columnToIndex(line, column, 'utf-32'))).toEqual([0, 1, 2, 4]);
+      expect(columnToIndex(line, 4, 'utf-16')).toBe(4);
+    });
+
+    it('should map a column inside a character to its start', () => {
+      expect(columnToIndex(line, 2, 'utf-8')).toBe(1);
+      expect(columnToIndex(line, 5, 'utf-8')).toBe(2);
+    });
+
+    it('should keep columns past the end of the line that far past it', () => {
+      expect(columnToIndex(line, 10, 'utf-8')).toBe(7);
+      expect(columnToIndex(line, 5, 'utf-32')).toBe(6);
+    });
+  });
+
+  describe('indexToColumn', () => {
+    it('should map string indices to columns in each encoding', () => {
+      expect([0, 1, 2, 4, 5].map(index => indexToColumn(line, index, 'utf-8'))).toEqual([0, 1, 3, 7, 8]);
+      expect([0, 1, 2, 4, 5].map(index => indexToColumn(line, index, 'utf-32'))).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should map an index inside a surrogate pair to the pair', () => {
+      expect(indexToColumn(line, 3, 'utf-32')).toBe(2);
+    });
+  });
+
+  describe('convertColumn', () => {
+    it('should convert between encodings', () => {
+      expect(convertColumn(line, 7, 'utf-8', 'utf-16')).toBe(4);
+      expect(convertColumn(line, 4, 'utf-16', 'utf-32')).toBe(3);
+      expect(convertColumn(line, 3, 'utf-32', 'utf-8')).toBe(7);
+      expect(convertColumn(line, 2, 'utf-16', 'utf-16')).toBe(2);
+    });
+  });
+
+  describe('getColumnEncoding', () => {
+    const original = process.env.COLUMN_ENCODING;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.COLUMN_ENCODING;
+      } else {
+        process.env.COLUMN_ENCODING = original;
+      }
+    });
+
+    it('should default to UTF-16', () => {
+      delete process.env.COLUMN_ENCODING;
+      expect(getColumnEncoding()).toBe('utf-16');
+    });
+
+    it('should read COLUMN_ENCODING', () => {
+      process.env.COLUMN_ENCODING = 'UTF-8';
+      expect(getColumnEncoding()).toBe('utf-8');
+    });
+
+    it('should fall back to UTF-16 for invalid values', () => {
+      process.env.COLUMN_ENCODING = 'bytes';
+      expect(getColumnEncoding()).toBe('utf-16');
+    });
+  });
+});
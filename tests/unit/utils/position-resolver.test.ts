@@ -0,0 +1,162 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  DEFAULT_SEARCH_RADIUS,
+  findNearestToken,
+  getDefaultSearchRadius,
+  resolvePosition
+} from '../../../src/utils/position-resolver.js';
+
+describe('position-resolver', () => {
+  describe('findNearestToken', () => {
+    const line = '  net::HttpRequest::Start(url);';
+
+    it('should return the identifier containing the column', () => {
+      expect(findNearestToken(line, 10, 8)).toEqual({ start: 7, end: 18, text: 'HttpRequest' });
+    });
+
+    it('should snap from a scope operator to the nearest identifier', () => {
+      expect(findNearestToken(line, 19, 8)?.text).toBe('Start');
+      expect(findNearestToken(line, 5, 8)?.text).toBe('net');
+    });
+
+    it('should prefer the identifier on the left on ties', () => {
+      // One past the end of "Start", one before "url"
+      expect(findNearestToken(line, 25, 8)?.text).toBe('Start');
+    });
+
+    it('should snap from leading whitespace', () => {
+      expect(findNearestToken(line, 0, 8)?.text).toBe('net');
+    });
+
+    it('should give up outside the radius', () => {
+      expect(findNearestToken('x' + ' '.repeat(20), 15, 8)).toBeNull();
+      expect(findNearestToken(line, 19, 0)).toBeNull();
+    });
+
+    it('should match the text hint instead of identifiers', () => {
+      expect(findNearestToken(line, 0, 8, 'HttpRequest::Start')).toEqual({
+        start: 7,
+        end: 25,
+        text: 'HttpRequest::Start'
+      });
+      expect(findNearestToken(line, 0, 8, 'Stop')).toBeNull();
+    });
+  });
+
+  describe('resolvePosition', () => {
+    let testDir: string;
+    let testFile: string;
+
+    beforeEach(() => {
+      testDir = join(tmpdir(), `position-resolver-test-${Date.now()}`);
+      mkdirSync(testDir, { recursive: true });
+      testFile = join(testDir, 'test.cc');
+      writeFileSync(testFile, 'int main() {\n  net::HttpRequest::Start(url);\n}\n');
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should keep a column that is on an identifier', async () => {
+      expect(await resolvePosition(testFile, 1, 12, { radius: 8 })).toEqual({
+        resolved: { line: 1, column: 12, token: 'HttpRequest', adjusted: false }
+      });
+    });
+
+    it('should report the adjusted column', async () => {
+      expect(await resolvePosition(testFile, 1, 19, { radius: 8 })).toEqual({
+        resolved: { line: 1, column: 20, token: 'Start', adjusted: true }
+      });
+    });
+
+    it('should report a text hint that is not near the position', async () => {
+      const resolution = await resolvePosition(testFile, 1, 2, { radius: 8, text: 'url' });
+
+      expect(resolution.resolved).toBeNull();
+      if (resolution.resolved === null) {
+        expect(resolution.message).toBe("Text 'url' not found within 8 columns of 1:2");
+      }
+    });
+
+    it('should number the position in messages from the index base', async () => {
+      const resolution = await resolvePosition(testFile, 1, 2, { radius: 8, text: 'url', indexBase: 1 });
+
+      expect(resolution.resolved).toBeNull();
+      if (resolution.resolved === null) {
+        expect(resolution.message).toBe("Text 'url' not found within 8 columns of 2:3");
+      }
+    });
+
+    it('should not snap an exact position without a text hint', async () => {
+      const resolution = await resolvePosition(testFile, 1, 19, { radius: 8, exact: true });
+
+      expect(resolution.resolved).toBeNull();
+      if (resolution.resolved === null) {
+        expect(resolution.message).toBe(
+          'No identifier at 1:19; give the exact column or pass text to allow a nearby match'
+        );
+      }
+      expect(await resolvePosition(testFile, 1, 20, { radius: 8, exact: true })).toEqual({
+        resolved: { line: 1, column: 20, token: 'Start', adjusted: false }
+      });
+    });
+
+    it('should snap an exact position to its text hint', async () => {
+      expect(await resolvePosition(testFile, 1, 19, { radius: 8, text: 'Start', exact: true })).toEqual({
+        resolved: { line: 1, column: 20, token: 'Start', adjusted: true }
+      });
+    });
+
+    it('should take and report columns in the given encoding', async () => {
+      const file = join(testDir, 'utf8.cc');
+      writeFileSync(file, '  "ü" + Start();\n');
+
+      // 'ü' is two UTF-8 bytes, so Start begins at byte 9 but index 8
+      expect(await resolvePosition(file, 0, 8, { radius: 8, encoding: 'utf-8' })).toEqual({
+        resolved: { line: 0, column: 9, token: 'Start', adjusted: true }
+      });
+      expect(await resolvePosition(file, 0, 10, { radius: 8, encoding: 'utf-8' })).toEqual({
+        resolved: { line: 0, column: 10, token: 'Start', adjusted: false }
+      });
+    });
+
+    it('should pass through positions it cannot check', async () => {
+      expect(await resolvePosition(testFile, 10, 4, { radius: 8 })).toEqual({
+        resolved: { line: 10, column: 4, adjusted: false }
+      });
+      expect(await resolvePosition(join(testDir, 'missing.cc'), 0, 4, { radius: 8 })).toEqual({
+        resolved: { line: 0, column: 4, adjusted: false }
+      });
+    });
+  });
+
+  describe('getDefaultSearchRadius', () => {
+    const original = process.env.POSITION_SEARCH_RADIUS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.POSITION_SEARCH_RADIUS;
+      } else {
+        process.env.POSITION_SEARCH_RADIUS = original;
+      }
+    });
+
+    it('should read POSITION_SEARCH_RADIUS', () => {
+      process.env.POSITION_SEARCH_RADIUS = '3';
+      expect(getDefaultSearchRadius()).toBe(3);
+    });
+
+    it('should fall back to the default for invalid values', () => {
+      process.env.POSITION_SEARCH_RADIUS = '-1';
+      expect(getDefaultSearchRadius()).toBe(DEFAULT_SEARCH_RADIUS);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  relativizeResultPaths,
+  resolveProjectPath,
+  toProjectRelative
+} from '../../../src/utils/project-paths.js';
+
+describe('project-paths', () => {
+  const root = '/home/user/project';
+
+  describe('resolveProjectPath', () => {
+    it('should resolve relative paths against the project root', () => {
+      expect(resolveProjectPath(root, 'src/main.cc')).toBe('/home/user/project/src/main.cc');
+      expect(resolveProjectPath(root, './src/../include/a.h')).toBe('/home/user/project/include/a.h');
+    });
+
+    it('should keep absolute paths', () => {
+      expect(resolveProjectPath(root, '/usr/include/stdio.h')).toBe('/usr/include/stdio.h');
+    });
+  });
+
+  describe('toProjectRelative', () => {
+    it('should make paths inside the project relative', () => {
+      expect(toProjectRelative(root, '/home/user/project/src/main.cc')).toBe('src/main.cc');
+    });
+
+    it('should keep paths outside the project absolute', () => {
+      expect(toProjectRelative(root, '/usr/include/stdio.h')).toBe('/usr/include/stdio.h');
+      expect(toProjectRelative(root, '/home/user/project-other/a.cc')).toBe('/home/user/project-other/a.cc');
+      expect(toProjectRelative(root, root)).toBe(root);
+    });
+  });
+
+  describe('relativizeResultPaths', () => {
+    it('should rewrite nested file paths but not URIs or other strings', () => {
+      const result = JSON.stringify({
+        found: true,
+        locations: [
+          { file: '/home/user/project/src/a.cc', line: 1 },
+          { file: '/usr/include/c++/v1/vector', line: 2 }
+        ],
+        resolved_symbol: { name: 'foo', file: '/home/user/project/src/a.h' },
+        uri: 'file:///home/user/project/src/a.cc',
+        detail: '/home/user/project/src/a.cc'
+      });
+
+      expect(JSON.parse(relativizeResultPaths(result, root))).toEqual({
+        found: true,
+        locations: [
+          { file: 'src/a.cc', line: 1 },
+          { file: '/usr/include/c++/v1/vector', line: 2 }
+        ],
+        resolved_symbol: { name: 'foo', file: 'src/a.h' },
+        uri: 'file:///home/user/project/src/a.cc',
+        detail: '/home/user/project/src/a.cc'
+      });
+    });
+
+    it('should rewrite reopened files', () => {
+      const result = JSON.stringify({
+        restarted: true,
+        reopened_files: ['/home/user/project/src/a.cc', '/tmp/scratch.cc']
+      });
+
+      expect(JSON.parse(relativizeResultPaths(result, root)).reopened_files)
+        .toEqual(['src/a.cc', '/tmp/scratch.cc']);
+    });
+
+    it('should rewrite the node locations of diagrams but not their links', () => {
+      const mermaid = [
+        'graph LR',
+        '  n0["foo<br/><i>function</i>"]',
+        '  click n0 href "file:///home/user/project/src/a.cc" "/home/user/project/src/a.cc:3"',
+        '  click n1 href "file:///usr/include/vector" "/usr/include/vector:10"',
+        ''
+      ].join('\n');
+      const dot = '  n0 [label="foo\\n(function)", tooltip="/home/user/project/src/a.cc:3"];\n';
+
+      expect(JSON.parse(relativizeResultPaths(JSON.stringify({ diagram: mermaid }), root)).diagram).toBe([
+        'graph LR',
+        '  n0["foo<br/><i>function</i>"]',
+        '  click n0 href "file:///home/user/project/src/a.cc" "src/a.cc:3"',
+        '  click n1 href "file:///usr/include/vector" "/usr/include/vector:10"',
+        ''
+      ].join('\n'));
+      expect(JSON.parse(relativizeResultPaths(JSON.stringify({ diagram: dot }), root)).diagram)
+        .toBe('  n0 [label="foo\\n(function)", tooltip="src/a.cc:3"];\n');
+    });
+
+    it('should return results that are not JSON unchanged', () => {
+      expect(relativizeResultPaths('graph TD', root)).toBe('graph TD');
+    });
+  });
+});
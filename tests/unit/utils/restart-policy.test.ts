@@ -0,0 +1,107 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  DEFAULT_RESTART_POLICY,
+  getIdleTimeout,
+  getRestartDelay,
+  getRestartPolicy
+} from '../../../src/utils/restart-policy.js';
+
+describe('restart-policy', () => {
+  describe('getRestartDelay', () => {
+    const policy = { ...DEFAULT_RESTART_POLICY, initialDelayMs: 100, maxDelayMs: 1000 };
+
+    it('should grow the delay along the backoff curve', () => {
+      expect([1, 2, 3].map(attempt => getRestartDelay({ ...policy, backoff: 'constant' }, attempt)))
+        .toEqual([100, 100, 100]);
+      expect([1, 2, 3].map(attempt => getRestartDelay({ ...policy, backoff: 'linear' }, attempt)))
+        .toEqual([100, 200, 300]);
+      expect([1, 2, 3].map(attempt => getRestartDelay({ ...policy, backoff: 'exponential' }, attempt)))
+        .toEqual([100, 200, 400]);
+    });
+
+    it('should not exceed the maximum delay', () => {
+      expect(getRestartDelay({ ...policy, backoff: 'exponential' }, 6)).toBe(1000);
+    });
+  });
+
+  describe('getRestartPolicy', () => {
+    const names = [
+      'RESTART_MAX_ATTEMPTS',
+      'RESTART_DELAY_MS',
+      'RESTART_BACKOFF',
+      'RESTART_MAX_DELAY_MS',
+      'RESTART_STABLE_PERIOD_MS'
+    ];
+    const original = Object.fromEntries(names.map(name => [name, process.env[name]]));
+
+    beforeEach(() => {
+      for (const name of names) {
+        delete process.env[name];
+      }
+    });
+
+    afterEach(() => {
+      for (const [name, value] of Object.entries(original)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    });
+
+    it('should default to 3 linear restarts', () => {
+      expect(getRestartPolicy()).toEqual(DEFAULT_RESTART_POLICY);
+      expect(DEFAULT_RESTART_POLICY).toMatchObject({ maxRestarts: 3, backoff: 'linear' });
+    });
+
+    it('should read the environment', () => {
+      process.env.RESTART_MAX_ATTEMPTS = '0';
+      process.env.RESTART_DELAY_MS = '500';
+      process.env.RESTART_BACKOFF = 'Exponential';
+      process.env.RESTART_MAX_DELAY_MS = '8000';
+      process.env.RESTART_STABLE_PERIOD_MS = '300000';
+
+      expect(getRestartPolicy()).toEqual({
+        maxRestarts: 0,
+        initialDelayMs: 500,
+        backoff: 'exponential',
+        maxDelayMs: 8000,
+        stableOperationPeriodMs: 300000
+      });
+    });
+
+    it('should ignore invalid values', () => {
+      process.env.RESTART_MAX_ATTEMPTS = '-1';
+      process.env.RESTART_BACKOFF = 'fibonacci';
+
+      expect(getRestartPolicy()).toEqual(DEFAULT_RESTART_POLICY);
+    });
+  });
+
+  describe('getIdleTimeout', () => {
+    const original = process.env.IDLE_TIMEOUT_MS;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.IDLE_TIMEOUT_MS;
+      } else {
+        process.env.IDLE_TIMEOUT_MS = original;
+      }
+    });
+
+    it('should keep servers running by default', () => {
+      delete process.env.IDLE_TIMEOUT_MS;
+      expect(getIdleTimeout()).toBe(0);
+    });
+
+    it('should read IDLE_TIMEOUT_MS', () => {
+      process.env.IDLE_TIMEOUT_MS = '1800000';
+      expect(getIdleTimeout()).toBe(1800000);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { MAX_CONTEXT_LINES, SourceContextReader } from '../../../src/utils/source-context.js';
+import { pathToUri } from '../../../src/utils/uri.js';
+
+describe('SourceContextReader', () => {
+  let testDir: string;
+  let uri: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `source-context-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    const testFile = join(testDir, 'test.cpp');
+    writeFileSync(testFile, 'int a;\r\nint b;\nvoid foo() {\n  bar();\n}\nint c;\n');
+    uri = pathToUri(testFile);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined when no context is requested', async () => {
+    const reader = new SourceContextReader();
+    const range = { start: { line: 2, character: 5 }, end: { line: 2, character: 8 } };
+
+    expect(await reader.getContext(uri, range, undefined)).toBeUndefined();
+  });
+
+  it('should return surrounding lines with the range highlighted', async () => {
+    const reader = new SourceContextReader();
+    const range = { start: { line: 2, character: 5 }, end: { line: 2, character: 8 } };
+
+    expect(await reader.getContext(uri, range, 1)).toEqual([
+      { line: 1, text: 'int b;' },
+      { line: 2, text: 'void foo() {', highlight: { start: 5, end: 8 } },
+      { line: 3, text: '  bar();' }
+    ]);
+  });
+
+  it('should highlight every line of a multi-line range', async () => {
+    const reader = new SourceContextReader();
+    const range = { start: { line: 2, character: 5 }, end: { line: 4, character: 1 } };
+
+    expect(await reader.getContext(uri, range, 0)).toEqual([
+      { line: 2, text: 'void foo() {', highlight: { start: 5, end: 12 } },
+      { line: 3, text: '  bar();', highlight: { start: 0, end: 8 } },
+      { line: 4, text: '}', highlight: { start: 0, end: 1 } }
+    ]);
+  });
+
+  it('should clamp context to the start of the file and strip carriage returns', async () => {
+    const reader = new SourceContextReader();
+    const range = { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } };
+
+    expect(await reader.getContext(uri, range, 3)).toEqual([
+      { line: 0, text: 'int a;', highlight: { start: 4, end: 5 } },
+      { line: 1, text: 'int b;' },
+      { line: 2, text: 'void foo() {' },
+      { line: 3, text: '  bar();' }
+    ]);
+  });
+
+  it('should return at most MAX_CONTEXT_LINES lines on each side', async () => {
+    const largeFile = join(testDir, 'large.cpp');
+    writeFileSync(largeFile, Array.from({ length: 200 }, (_, i) => `int v${i};`).join('\n'));
+    const reader = new SourceContextReader();
+    const range = { start: { line: 100, character: 4 }, end: { line: 100, character: 8 } };
+
+    const context = await reader.getContext(pathToUri(largeFile), range, 1e9);
+    expect(context).toHaveLength(2 * MAX_CONTEXT_LINES + 1);
+    expect(context?.[0].line).toBe(100 - MAX_CONTEXT_LINES);
+  });
+
+  it('should return undefined for unreadable files', async () => {
+    const reader = new SourceContextReader();
+    const range = { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } };
+
+    expect(await reader.getContext(pathToUri(join(testDir, 'missing.cpp')), range, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  parseSymbolName,
+  resolveSymbolInDocument,
+  resolveSymbolInWorkspace
+} from '../../../src/utils/symbol-resolver.js';
+import { FileTracker } from '../../../src/file-tracker.js';
+import { LSPClient } from '../../../src/lsp-client.js';
+import { pathToUri } from '../../../src/utils/uri.js';
+import {
+  MockWritableStream,
+  MockReadableStream,
+  sendLSPMessage,
+  parseLSPMessages
+} from '../../helpers/mock-streams.js';
+import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+function range(line: number, start: number, end: number) {
+  return { start: { line, character: start }, end: { line, character: end } };
+}
+
+describe('symbol-resolver', () => {
+  let client: LSPClient;
+  let fileTracker: FileTracker;
+  let stdin: MockWritableStream;
+  let stdout: MockReadableStream;
+  let testDir: string;
+  let testFile: string;
+
+  beforeEach(() => {
+    stdin = new MockWritableStream();
+    stdout = new MockReadableStream();
+    client = new LSPClient(stdin, stdout);
+    fileTracker = new FileTracker(client);
+
+    testDir = join(tmpdir(), `symbol-resolver-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    testFile = join(testDir, 'test.cc');
+    writeFileSync(testFile, 'namespace net {\nvoid HttpRequest::Start() {}\nvoid Start() {}\n}\n');
+  });
+
+  /**
+   * Wait until the nth request for a method was sent, then answer it
+   */
+  async function respondTo(method: string, result: any, nth: number = 0): Promise<void> {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const request = parseLSPMessages(stdin.getWrittenData())
+        .filter(message => message.method === method)[nth];
+      if (request) {
+        sendLSPMessage(stdout, { jsonrpc: '2.0', id: request.id, result });
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`${method} was not requested`);
+  }
+
+  afterEach(() => {
+    fileTracker.closeAll();
+    client.close();
+    stdin.cleanup();
+    stdout.cleanup();
+    if (testDir) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('parseSymbolName', () => {
+    it('should split C++ and dotted names into segments', () => {
+      expect(parseSymbolName('net::HttpRequest::Start')).toEqual(['net', 'HttpRequest', 'Start']);
+      expect(parseSymbolName('::Start')).toEqual(['Start']);
+      expect(parseSymbolName('pkg.Class.method')).toEqual(['pkg', 'Class', 'method']);
+    });
+  });
+
+  describe('resolveSymbolInDocument', () => {
+    const documentSymbols = [
+      {
+        name: 'net',
+        kind: 3,
+        range: range(0, 0, 3),
+        selectionRange: range(0, 10, 13),
+        children: [
+          { name: 'HttpRequest::Start', kind: 6, range: range(1, 0, 28), selectionRange: range(1, 18, 23) },
+          { name: 'Start', kind: 12, range: range(2, 0, 15), selectionRange: range(2, 5, 10) }
+        ]
+      }
+    ];
+
+    async function resolve(symbol: string) {
+      const promise = resolveSymbolInDocument(client, fileTracker, testFile, symbol);
+      await respondTo('textDocument/documentSymbol', documentSymbols);
+      return promise;
+    }
+
+    it('should resolve a qualified name to the symbol position', async () => {
+      const resolution = await resolve('net::HttpRequest::Start');
+
+      expect(resolution.resolved).toEqual({
+        name: 'HttpRequest::Start',
+        qualifiedName: 'net::HttpRequest::Start',
+        kind: 6,
+        uri: pathToUri(testFile),
+        position: { line: 1, character: 18 }
+      });
+    });
+
+    it('should report every candidate for an ambiguous name', async () => {
+      const resolution = await resolve('Start');
+
+      expect(resolution.resolved).toBeNull();
+      if (resolution.resolved === null) {
+        expect(resolution.message).toMatch(/ambiguous/);
+        expect(resolution.candidates.map(c => c.qualifiedName)).toEqual([
+          'net::HttpRequest::Start',
+          'net::Start'
+        ]);
+      }
+    });
+
+    it('should report names that do not match', async () => {
+      const resolution = await resolve('Stop');
+
+      expect(resolution.resolved).toBeNull();
+      if (resolution.resolved === null) {
+        expect(resolution.message).toMatch(/No symbol named 'Stop'/);
+        expect(resolution.candidates).toEqual([]);
+      }
+    });
+  });
+
+  describe('resolveSymbolInWorkspace', () => {
+    it('should fall back to the bare name and filter by container', async () => {
+      const promise = resolveSymbolInWorkspace([client], 'net::HttpRequest::Start');
+
+      await respondTo('workspace/symbol', []);
+      await respondTo('workspace/symbol', [
+        {
+          name: 'Start',
+          kind: 6,
+          location: { uri: pathToUri(testFile), range: range(1, 18, 23) },
+          containerName: 'net::HttpRequest'
+        },
+        {
+          name: 'Start',
+          kind: 6,
+          location: { uri: pathToUri(testFile), range: range(7, 9, 14) },
+          containerName: 'net::Job'
+        }
+      ], 1);
+
+      const resolution = await promise;
+      expect(resolution.resolved?.position).toEqual({ line: 1, character: 18 });
+
+      const requests = parseLSPMessages(stdin.getWrittenData())
+        .filter(message => message.method === 'workspace/symbol')
+        .map(message => message.params.query);
+      expect(requests).toEqual(['net::HttpRequest::Start', 'Start']);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+// This Source Code Form is subject to the terms of the Mozilla Public
+// License, v. 2.0. If a copy of the MPL was not distributed with this
+// file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { pathToUri } from '../../../src/utils/uri.js';
+import {
+  writeFileSync, readFileSync, readdirSync, mkdirSync, rmSync, symlinkSync, lstatSync, statSync
+} from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+// Pass fs calls through, but let tests make a rename fail
+const actualFs = await import('node:fs/promises');
+const rename = jest.fn(actualFs.rename);
+jest.unstable_mockModule('node:fs/promises', () => ({ ...actualFs, rename }));
+
+const {
+  applyTextEdits,
+  collectTextEdits,
+  previewWorkspaceEdit,
+  applyWorkspaceEdit
+} = await import('../../../src/utils/workspace-edit.js');
+
+function edit(line: number, start: number, end: number, newText: string) {
+  return {
+    range: {
+      start: { line, character: start },
+      end: { line, character: end }
+    },
+    newText
+  };
+}
+
+describe('workspace-edit', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `workspace-edit-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('applyTextEdits', () => {
+    it('should apply multiple edits on the same line', () => {
+      const text = 'int foo = foo + 1;';
+      const result = applyTextEdits(text, [edit(0, 4, 7, 'bar'), edit(0, 10, 13, 'bar')]);
+      expect(result).toBe('int bar = bar + 1;');
+    });
+
+    it('should apply edits across lines regardless of order', () => {
+      const text = 'void foo();\nint main() { foo(); }\n';
+      const result = applyTextEdits(text, [edit(1, 13, 16, 'bar'), edit(0, 5, 8, 'bar')]);
+      expect(result).toBe('void bar();\nint main() { bar(); }\n');
+    });
+
+    it('should preserve CRLF line endings', () => {
+      const text = 'int foo;\r\nint x = foo;\r\n';
+      const result = applyTextEdits(text, [edit(1, 8, 11, 'bar')]);
+      expect(result).toBe('int foo;\r\nint x = bar;\r\n');
+    });
+
+    it('should convert columns from other encodings', () => {
+      // '😀' is one code point, two UTF-16 units and four UTF-8 bytes
+      const text = 'a😀 foo';
+      expect(applyTextEdits(text, [edit(0, 6, 9, 'bar')], 'utf-8')).toBe('a😀 bar');
+      expect(applyTextEdits(text, [edit(0, 3, 6, 'bar')], 'utf-32')).toBe('a😀 bar');
+    });
+
+    it('should reject overlapping edits', () => {
+      expect(() => applyTextEdits('abcdef', [edit(0, 0, 4, 'x'), edit(0, 2, 6, 'y')]))
+        .toThrow('Overlapping');
+    });
+  });
+
+  describe('collectTextEdits', () => {
+    it('should collect edits from changes', () => {
+      const edits = collectTextEdits({
+        changes: { 'file:///a.cpp': [edit(0, 0, 1, 'x')] }
+      });
+      expect(edits.get('file:///a.cpp')).toHaveLength(1);
+    });
+
+    it('should collect edits from documentChanges and skip resource operations', () => {
+      const edits = collectTextEdits({
+        documentChanges: [
+          { textDocument: { uri: 'file:///a.cpp', version: 1 }, edits: [edit(0, 0, 1, 'x')] },
+          { kind: 'create', uri: 'file:///new.cpp' },
+          { textDocument: { uri: 'file:///a.cpp', version: 1 }, edits: [edit(1, 0, 1, 'y')] }
+        ]
+      });
+      expect(edits.size).toBe(1);
+      expect(edits.get('file:///a.cpp')).toHaveLength(2);
+    });
+  });
+
+  describe('previewWorkspaceEdit', () => {
+    it('should report before and after lines for each edit', async () => {
+      const file = join(testDir, 'test.cpp');
+      writeFileSync(file, 'void foo();\nint main() { foo(); }\n');
+
+      const previews = await previewWorkspaceEdit({
+        changes: { [pathToUri(file)]: [edit(1, 13, 16, 'bar'), edit(0, 5, 8, 'bar')] }
+      });
+
+      expect(previews).toHaveLength(1);
+      expect(previews[0].file).toBe(file);
+      expect(previews[0].edits).toEqual([
+        expect.objectContaining({ line: 0, column: 5, before: 'void foo();', after: 'void bar();' }),
+        expect.objectContaining({ line: 1, column: 13, before: 'int main() { foo(); }', after: 'int main() { bar(); }' })
+      ]);
+    });
+
+    it('should report columns in the tool encoding for edits in another', async () => {
+      const file = join(testDir, 'test.cpp');
+      writeFileSync(file, 'auto s = "é"; foo();\n');
+
+      // The server counts 'é' as two UTF-8 bytes; tools count UTF-16 units
+      const previews = await previewWorkspaceEdit({
+        changes: { [pathToUri(file)]: [edit(0, 15, 18, 'bar')] }
+      }, 'utf-8');
+
+      expect(previews[0].edits).toEqual([
+        expect.objectContaining({ column: 14, end_column: 17, after: 'auto s = "é"; bar();' })
+      ]);
+    });
+  });
+
+  describe('applyWorkspaceEdit', () => {
+    it('should write edits to every file and leave no temporary files', async () => {
+      const file1 = join(testDir, 'a.cpp');
+      const file2 = join(testDir, 'b.cpp');
+      writeFileSync(file1, 'void foo();');
+      writeFileSync(file2, 'foo();');
+
+      const modified = await applyWorkspaceEdit({
+        changes: {
+          [pathToUri(file1)]: [edit(0, 5, 8, 'bar')],
+          [pathToUri(file2)]: [edit(0, 0, 3, 'bar')]
+        }
+      });
+
+      expect(modified).toEqual([file1, file2]);
+      expect(readFileSync(file1, 'utf-8')).toBe('void bar();');
+      expect(readFileSync(file2, 'utf-8')).toBe('bar();');
+      expect(readdirSync(testDir).sort()).toEqual(['a.cpp', 'b.cpp']);
+    });
+
+    it('should not modify any file when one of them cannot be read', async () => {
+      const file = join(testDir, 'a.cpp');
+      writeFileSync(file, 'void foo();');
+
+      await expect(applyWorkspaceEdit({
+        changes: {
+          [pathToUri(file)]: [edit(0, 5, 8, 'bar')],
+          [pathToUri(join(testDir, 'missing.cpp'))]: [edit(0, 0, 3, 'bar')]
+        }
+      })).rejects.toThrow();
+
+      expect(readFileSync(file, 'utf-8')).toBe('void foo();');
+    });
+
+    it('should check every file before writing any', async () => {
+      const file1 = join(testDir, 'a.cpp');
+      const file2 = join(testDir, 'b.cpp');
+      writeFileSync(file1, 'void foo();');
+      writeFileSync(file2, 'foo();');
+
+      await expect(applyWorkspaceEdit({
+        changes: {
+          [pathToUri(file1)]: [edit(0, 5, 8, 'bar')],
+          [pathToUri(file2)]: [edit(0, 0, 3, 'bar')]
+        }
+      }, 'utf-16', file => {
+        if (file === file2) {
+          throw new Error(`Access denied: ${file}`);
+        }
+      })).rejects.toThrow('Access denied');
+
+      expect(readFileSync(file1, 'utf-8')).toBe('void foo();');
+    });
+
+    it('should restore replaced files and remove temporary files when a rename fails', async () => {
+      const file1 = join(testDir, 'a.cpp');
+      const file2 = join(testDir, 'b.cpp');
+      writeFileSync(file1, 'void foo();');
+      writeFileSync(file2, 'foo();');
+      rename
+        .mockImplementationOnce(actualFs.rename)
+        .mockRejectedValueOnce(new Error('EXDEV: cross-device link not permitted'));
+
+      await expect(applyWorkspaceEdit({
+        changes: {
+          [pathToUri(file1)]: [edit(0, 5, 8, 'bar')],
+          [pathToUri(file2)]: [edit(0, 0, 3, 'bar')]
+        }
+      })).rejects.toThrow('EXDEV');
+
+      expect(readFileSync(file1, 'utf-8')).toBe('void foo();');
+      expect(readFileSync(file2, 'utf-8')).toBe('foo();');
+      expect(readdirSync(testDir).sort()).toEqual(['a.cpp', 'b.cpp']);
+    });
+
+    it('should write through symlinks and keep the file mode', async () => {
+      const file = join(testDir, 'a.cpp');
+      const link = join(testDir, 'link.cpp');
+      writeFileSync(file, 'void foo();', { mode: 0o640 });
+      symlinkSync(file, link);
+
+      const modified = await applyWorkspaceEdit({
+        changes: { [pathToUri(link)]: [edit(0, 5, 8, 'bar')] }
+      });
+
+      expect(modified).toEqual([link]);
+      expect(lstatSync(link).isSymbolicLink()).toBe(true);
+      expect(readFileSync(file, 'utf-8')).toBe('void bar();');
+      expect(statSync(file).mode & 0o777).toBe(0o640);
+    });
+  });
+});